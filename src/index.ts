@@ -9,5 +9,7 @@
 
 export * from './layout';
 export * from './panel';
+export * from './store';
+export * from './tree';
 
 import './index.css';
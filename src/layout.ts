@@ -15,7 +15,7 @@ import {
 } from 'phosphor-boxengine';
 
 import {
-  IBoxSizing, boxSizing, sizeLimits
+  IBoxSizing, ISizeLimits, boxSizing, sizeLimits
 } from 'phosphor-domutil';
 
 import {
@@ -30,6 +30,10 @@ import {
   Property
 } from 'phosphor-properties';
 
+import {
+  ISignal, Signal, clearSignalData
+} from 'phosphor-signaling';
+
 import {
   ChildMessage, ResizeMessage, Widget
 } from 'phosphor-widget';
@@ -68,6 +72,122 @@ enum Orientation {
 }
 
 
+/**
+ * The direction of a horizontal split layout.
+ */
+export
+enum Direction {
+  /**
+   * The children are laid out left to right.
+   */
+  LeftToRight,
+
+  /**
+   * The children are laid out right to left.
+   */
+  RightToLeft,
+
+  /**
+   * The direction follows the CSS `direction` of the parent widget.
+   */
+  Auto,
+}
+
+
+/**
+ * The policy for resizing a split layout child with its container.
+ */
+export
+enum ResizePolicy {
+  /**
+   * The child absorbs the space left over by the other children.
+   */
+  Fill,
+
+  /**
+   * The child keeps its pixel size.
+   */
+  Fixed,
+
+  /**
+   * The child keeps its size relative to the layout space.
+   */
+  Proportional,
+}
+
+
+/**
+ * The mode for resizing the children of a split layout with its container.
+ */
+export
+enum ResizeMode {
+  /**
+   * The children are resized according to their resize policies and
+   * stretch factors.
+   */
+  Stretch,
+
+  /**
+   * Every child keeps its size relative to the layout space.
+   */
+  Proportional,
+}
+
+
+/**
+ * The reason for a change to the sizes of a split layout.
+ */
+export
+enum SizesChangeReason {
+  /**
+   * A handle was moved, typically by a user drag or key press.
+   */
+  UserDrag,
+
+  /**
+   * The sizes were changed programmatically.
+   */
+  Programmatic,
+
+  /**
+   * The layout container was resized.
+   */
+  ContainerResize,
+
+  /**
+   * A child was added, moved, or removed.
+   */
+  ChildChange,
+}
+
+
+/**
+ * An object which describes the context of a split handle.
+ */
+export
+interface IHandleContext {
+  /**
+   * The index of the handle in the layout.
+   */
+  index: number;
+
+  /**
+   * The orientation of the layout.
+   */
+  orientation: Orientation;
+
+  /**
+   * The widget which precedes the handle.
+   */
+  before: Widget;
+
+  /**
+   * The widget which follows the handle, or `null`.
+   */
+  after: Widget;
+}
+
+
 /**
  * A factory object which creates handles for a split layout.
  */
@@ -75,8 +195,46 @@ export
 interface IHandleFactory {
   /**
    * Create a new split handle for use with a split layout.
+   *
+   * @param context - The context of the new handle.
+   *
+   * #### Notes
+   * The handle may be a plain DOM node or a widget. A widget handle
+   * is sent the attach, detach, show, hide, and resize messages of
+   * the layout, but it is not a child of the layout's parent.
+   */
+  createHandle(context: IHandleContext): HTMLElement | Widget;
+
+  /**
+   * Update a split handle for a change to its context.
+   *
+   * @param handle - The handle created by the factory.
+   *
+   * @param context - The current context of the handle.
+   *
+   * #### Notes
+   * This is invoked when the layout orientation changes, and when a
+   * child is added, moved, or removed for the handles whose index or
+   * adjacent widgets may have changed.
+   *
+   * This method is optional.
+   */
+  updateHandle?(handle: HTMLElement | Widget, context: IHandleContext): void;
+
+  /**
+   * Dispose of a split handle which was removed from the layout.
+   *
+   * @param handle - The handle created by the factory.
+   *
+   * #### Notes
+   * This is invoked after the handle is removed from the DOM, either
+   * with its widget or when the layout is disposed, and can be used
+   * to clean up listeners or other resources of the handle.
+   *
+   * This method is optional. If it is not provided, a widget handle
+   * is disposed by the layout.
    */
-  createHandle(): HTMLElement;
+  disposeHandle?(handle: HTMLElement | Widget): void;
 }
 
 
@@ -95,6 +253,45 @@ class SplitLayout extends PanelLayout {
     this._factory = factory;
   }
 
+  /**
+   * Dispose of the resources held by the layout.
+   */
+  dispose(): void {
+    this._cancelAnimation();
+    this.unlink();
+    for (let i = 0, n = this._handles.length; i < n; ++i) {
+      let handle = this._handles[i];
+      if (handle.parentNode) handle.parentNode.removeChild(handle);
+      this._disposeHandle(handle, this._handleWidgets[i]);
+    }
+    this._handles.length = 0;
+    this._handleWidgets.length = 0;
+    clearSignalData(this);
+    super.dispose();
+  }
+
+  /**
+   * A signal emitted when the sizes of the children change.
+   *
+   * #### Notes
+   * The signal args hold the new normalized sizes of the children and
+   * the reason for the change.
+   */
+  get sizesChanged(): ISignal<SplitLayout, SplitLayout.ISizesChangedArgs> {
+    return SplitLayoutPrivate.sizesChangedSignal.bind(this);
+  }
+
+  /**
+   * A signal emitted when a size animation finishes.
+   *
+   * #### Notes
+   * The signal args are `true` if the animation ran to completion, or
+   * `false` if it was interrupted or canceled.
+   */
+  get animationFinished(): ISignal<SplitLayout, boolean> {
+    return SplitLayoutPrivate.animationFinishedSignal.bind(this);
+  }
+
   /**
    * Get the layout orientation for the split layout.
    */
@@ -110,13 +307,54 @@ class SplitLayout extends PanelLayout {
       return;
     }
     this._orientation = value;
+    this._lastSpace = 0;
     if (!this.parent) {
       return;
     }
     SplitLayoutPrivate.toggleOrientation(this.parent, value);
+    this._updateHandles(0);
+    this.parent.fit();
+  }
+
+  /**
+   * Get the layout direction for the split layout.
+   */
+  get direction(): Direction {
+    return this._direction;
+  }
+
+  /**
+   * Set the layout direction for the split layout.
+   *
+   * #### Notes
+   * The direction only applies to a horizontal layout. In right to
+   * left direction, the first child is laid out at the right edge.
+   *
+   * The default is `Direction.LeftToRight`.
+   */
+  set direction(value: Direction) {
+    if (this._direction === value) {
+      return;
+    }
+    this._direction = value;
+    if (!this.parent) {
+      return;
+    }
     this.parent.fit();
   }
 
+  /**
+   * Test whether the layout is horizontal and laid out right to left.
+   *
+   * #### Notes
+   * This reflects the direction resolved at the last layout fit.
+   *
+   * This is a read-only property.
+   */
+  get isMirrored(): boolean {
+    return this._rtl && this._orientation === Orientation.Horizontal;
+  }
+
   /**
    * Get the inter-element spacing for the split layout.
    */
@@ -139,6 +377,89 @@ class SplitLayout extends PanelLayout {
     this.parent.fit();
   }
 
+  /**
+   * Get the resize mode for the split layout.
+   */
+  get resizeMode(): ResizeMode {
+    return this._resizeMode;
+  }
+
+  /**
+   * Set the resize mode for the split layout.
+   *
+   * #### Notes
+   * In proportional mode, every visible child is rescaled when the
+   * layout space changes, so that a 30/70 split stays 30/70. This
+   * overrides the resize policies of the children.
+   *
+   * The default is `ResizeMode.Stretch`.
+   */
+  set resizeMode(value: ResizeMode) {
+    this._resizeMode = value;
+  }
+
+  /**
+   * Get the snap threshold for collapsible widgets.
+   *
+   * #### Notes
+   * This is a fraction of a widget's minimum size. A collapsible widget
+   * which is dragged below this size snaps shut, and a collapsed widget
+   * must be dragged beyond this size before it snaps back open.
+   *
+   * The default is `0.5`.
+   */
+  get collapseThreshold(): number {
+    return this._collapseThreshold;
+  }
+
+  /**
+   * Set the snap threshold for collapsible widgets.
+   */
+  set collapseThreshold(value: number) {
+    this._collapseThreshold = Math.max(0, value);
+  }
+
+  /**
+   * Get the hook invoked before a resize is applied.
+   */
+  get beforeResize(): SplitLayout.ResizeHook {
+    return this._beforeResize;
+  }
+
+  /**
+   * Set the hook invoked before a resize is applied.
+   *
+   * #### Notes
+   * The hook is invoked by [[moveHandle]] and [[setSizes]] with the
+   * proposed pixel sizes of the children. It may return the proposed
+   * sizes, modified sizes, or `null` to cancel the resize. The final
+   * sizes are clamped to the size limits of the children. If they do
+   * not add up to the proposed total, the difference is taken from or
+   * given to the children whose sizes were left unchanged, starting
+   * with the last child, so that the modified sizes are kept where
+   * possible.
+   *
+   * For [[setSizes]], the hook is invoked when the layout is next
+   * updated, since the pixel sizes are not known before then.
+   *
+   * A collapsible widget which snaps shut is not subject to the hook.
+   */
+  set beforeResize(value: SplitLayout.ResizeHook) {
+    this._beforeResize = value;
+  }
+
+  /**
+   * Get the index of the maximized widget.
+   *
+   * #### Notes
+   * This is `-1` if no widget is maximized.
+   *
+   * This is a read-only property.
+   */
+  get maximizedIndex(): number {
+    return this._maximized ? this._maximized.index : -1;
+  }
+
   /**
    * Get the normalized sizes of the widgets in the layout.
    *
@@ -154,10 +475,27 @@ class SplitLayout extends PanelLayout {
    * @param sizes - The relative sizes for the children in the layout.
    *   These values will be normalized to the available layout space.
    *
+   * @param options - The options for animating the size change.
+   *
    * #### Notes
    * Extra values are ignored, too few will yield an undefined layout.
+   *
+   * An animated size change is applied over several animation frames
+   * and is interrupted by a handle movement or a later size change.
+   * The [[animationFinished]] signal is emitted when it finishes. The
+   * sizes are applied immediately if the layout is not visible.
    */
-  setSizes(sizes: number[]): void {
+  setSizes(sizes: number[], options?: SplitLayout.IAnimationOptions): void {
+    this._cancelAnimation();
+    this._maximized = null;
+    let space = this._sizers.reduce((v, s) => v + s.size, 0);
+    if (options && options.animate && this.parent && this.parent.isVisible && space > 0) {
+      this._animateSizes(sizes, space, options);
+      return;
+    }
+    if (!this._hookPending) {
+      this._hookPrevious = this._sizers.map(s => s.size);
+    }
     let normed = SplitLayoutPrivate.normalize(sizes);
     for (let i = 0, n = this._sizers.length; i < n; ++i) {
       let hint = Math.max(0, normed[i] || 0);
@@ -166,100 +504,527 @@ class SplitLayout extends PanelLayout {
       sizer.size = hint;
     }
     this._normed = true;
+    this._hookPending = true;
+    this._reason = SizesChangeReason.Programmatic;
     if (this.parent) this.parent.update();
   }
 
   /**
-   * Get the handle for the widget at the given index.
+   * Get the pixel sizes of the widgets in the layout.
    *
-   * @param index - The index of the handle of interest.
+   * @returns The pixel sizes of the widgets in the layout.
    *
-   * @returns The handle for the given index, or `undefined`.
+   * #### Notes
+   * Relative sizes set by [[setSizes]] which are not yet applied are
+   * resolved against the current layout space, without the size limits
+   * of the children. They are zero if the layout has not yet been sized.
    */
-  handleAt(index: number): HTMLElement {
-    return this._handles[index];
+  pixelSizes(): number[] {
+    let scale = this._normed ? this._lastSpace : 1;
+    return this._sizers.map(s => s.size * scale);
   }
 
   /**
-   * Move a split handle to the specified offset position.
+   * Set the pixel sizes for the child widgets in the layout.
    *
-   * @param index - The index of the handle of the interest.
-   *
-   * @param position - The desired offset position of the handle. This
-   *   is the absolute position relative to the origin of the parent.
+   * @param sizes - The pixel sizes for the children in the layout.
    *
    * #### Notes
-   * This will move the handle as close as possible to the desired
-   * position. The sibling children will be adjusted as necessary.
+   * Each size is clamped to the size limits of its child. If the sizes
+   * do not fill the layout space, the difference is distributed to the
+   * children according to their stretch factors.
+   *
+   * If the layout has not yet been sized, the sizes are used as the
+   * size hints for the first layout.
+   *
+   * Extra values are ignored, too few will yield an undefined layout.
    */
-  moveHandle(index: number, position: number): void {
-    // Bail if the index is invalid or the handle is hidden.
-    let handle = this._handles[index];
-    if (!handle || handle.classList.contains(HIDDEN_CLASS)) {
-      return;
+  setPixelSizes(sizes: number[]): void {
+    this._cancelAnimation();
+    this._maximized = null;
+    if (!this._hookPending) {
+      this._hookPrevious = this._sizers.map(s => s.size);
     }
-
-    // Compute the delta movement for the handle.
-    let delta: number;
-    if (this._orientation === Orientation.Horizontal) {
-      delta = position - handle.offsetLeft;
-    } else {
-      delta = position - handle.offsetTop;
+    for (let i = 0, n = this._sizers.length; i < n; ++i) {
+      let sizer = this._sizers[i];
+      let hint = Math.max(0, sizes[i] || 0);
+      hint = Math.max(sizer.minSize, Math.min(hint, sizer.maxSize));
+      sizer.sizeHint = hint;
+      sizer.size = hint;
     }
+    this._normed = false;
+    this._hookPending = true;
+    this._reason = SizesChangeReason.Programmatic;
+    if (this.parent) this.parent.update();
+  }
 
-    // Bail if there is no handle movement.
-    if (delta === 0) {
+  /**
+   * Set the pixel size of a single widget in the layout.
+   *
+   * @param index - The index of the widget of interest.
+   *
+   * @param size - The desired pixel size of the widget.
+   *
+   * #### Notes
+   * The size is taken from or given to the following siblings, or the
+   * preceding siblings for the last visible widget, while respecting
+   * the size limits of all children.
+   *
+   * The size is applied when the layout is next updated, so it may be
+   * set before the layout has been sized. A hidden or collapsed widget
+   * is not resized.
+   */
+  setPaneSize(index: number, size: number): void {
+    if (!this._sizers[index]) {
       return;
     }
-
-    // Prevent item resizing unless needed.
-    for (let sizer of this._sizers) {
-      if (sizer.size > 0) sizer.sizeHint = sizer.size;
-    }
-
-    // Adjust the sizers to reflect the movement.
-    if (delta > 0) {
-      SplitLayoutPrivate.growSizer(this._sizers, index, delta);
-    } else {
-      SplitLayoutPrivate.shrinkSizer(this._sizers, index, -delta);
+    this._cancelAnimation();
+    this._maximized = null;
+    if (!this._hookPending) {
+      this._hookPrevious = this._sizers.map(s => s.size);
+      this._hookPending = true;
     }
-
-    // Update the layout of the child widgets.
+    this._paneRequests.push({ index, size: Math.max(0, size) });
+    this._reason = SizesChangeReason.Programmatic;
     if (this.parent) this.parent.update();
   }
 
   /**
-   * Initialize the children of the layout.
+   * Test whether the widget at the given index is collapsed.
    *
-   * #### Notes
-   * This method is called automatically when the layout is installed
-   * on its parent widget.
+   * @param index - The index of the widget of interest.
+   *
+   * @returns `true` if the widget is collapsed, `false` otherwise.
    */
-  protected initialize(): void {
-    SplitLayoutPrivate.toggleOrientation(this.parent, this.orientation);
-    super.initialize();
+  isCollapsed(index: number): boolean {
+    let sizer = this._sizers[index];
+    return sizer ? sizer.collapsed : false;
   }
 
   /**
-   * Attach a child widget to the parent's DOM node.
+   * Collapse the widget at the given index to zero size.
    *
-   * @param index - The current index of the child in the layout.
-   *
-   * @param child - The child widget to attach to the parent.
+   * @param index - The index of the widget to collapse.
    *
    * #### Notes
-   * This is a reimplementation of the superclass method.
+   * The current size of the widget is remembered so that it can be
+   * restored by [[expand]], and the freed space is given to the
+   * nearest visible sibling. The handle adjacent to the widget is
+   * kept visible so the widget can be dragged back open.
+   *
+   * This is a no-op if the index is invalid or the widget is hidden
+   * or already collapsed.
    */
-  protected attachChild(index: number, child: Widget): void {
-    let handle = SplitLayoutPrivate.createHandle(this._factory);
-    let average = SplitLayoutPrivate.averageSize(this._sizers);
-    let sizer = SplitLayoutPrivate.createSizer(average);
-    arrays.insert(this._sizers, index, sizer);
-    arrays.insert(this._handles, index, handle);
-    SplitLayoutPrivate.prepareGeometry(child);
-    this.parent.node.appendChild(child.node);
+  collapse(index: number): void {
+    let sizer = this._sizers[index];
+    if (!sizer || sizer.collapsed || this.childAt(index).isHidden) {
+      return;
+    }
+    this._cancelAnimation();
+    this._maximized = null;
+    this._collapseSizer(index, this._neighborOf(index));
+    this._reason = SizesChangeReason.Programmatic;
+    if (this.parent) this.parent.fit();
+  }
+
+  /**
+   * Expand a collapsed widget to its size before it was collapsed.
+   *
+   * @param index - The index of the widget to expand.
+   *
+   * #### Notes
+   * The space for the widget is taken from the nearest visible sibling.
+   *
+   * This is a no-op if the index is invalid or the widget is not
+   * collapsed.
+   */
+  expand(index: number): void {
+    let sizer = this._sizers[index];
+    if (!sizer || !sizer.collapsed) {
+      return;
+    }
+    this._cancelAnimation();
+    this._maximized = null;
+    let size = sizer.expandedSize;
+    let neighbor = this._sizers[this._neighborOf(index)];
+    if (neighbor) {
+      neighbor.sizeHint = neighbor.size = Math.max(0, neighbor.size - size);
+    }
+    sizer.sizeHint = sizer.size = size;
+    sizer.collapsed = false;
+    this._reason = SizesChangeReason.Programmatic;
+    if (this.parent) this.parent.fit();
+  }
+
+  /**
+   * Maximize the widget at the given index.
+   *
+   * @param index - The index of the widget of interest.
+   *
+   * #### Notes
+   * The other widgets are shrunk to their minimum size, and the given
+   * widget takes the remaining space. A collapsed widget is expanded.
+   * The prior sizes are remembered and can be recovered by [[restore]].
+   *
+   * Any other change to the sizes, or adding, moving, or removing a
+   * child, forgets the prior sizes.
+   *
+   * This is a no-op if the index is invalid or the widget is hidden.
+   */
+  maximize(index: number): void {
+    let sizer = this._sizers[index];
+    if (!sizer || this.childAt(index).isHidden) {
+      return;
+    }
+    this._cancelAnimation();
+    if (this._maximized) {
+      this._restoreSizers();
+    }
+    let total = this._sizers.reduce((v, s) => v + s.size, 0);
+    this._maximized = { index, sizers: this._sizerStates() };
+    for (let other of this._sizers) {
+      other.sizeHint = other.size = 0;
+    }
+    sizer.sizeHint = sizer.size = Math.max(total, this._lastSpace);
+    sizer.collapsed = false;
+    this._normed = false;
+    this._reason = SizesChangeReason.Programmatic;
+    if (this.parent) this.parent.fit();
+  }
+
+  /**
+   * Restore the sizes from before the widget was maximized.
+   *
+   * #### Notes
+   * This is a no-op if no widget is maximized.
+   */
+  restore(): void {
+    if (!this._maximized) {
+      return;
+    }
+    this._cancelAnimation();
+    this._restoreSizers();
+    this._normed = false;
+    this._reason = SizesChangeReason.Programmatic;
+    if (this.parent) this.parent.fit();
+  }
+
+  /**
+   * Take a snapshot of the sizes of the widgets in the layout.
+   *
+   * @returns An opaque snapshot which can be passed to [[revertSizes]].
+   *
+   * #### Notes
+   * Unlike [[saveState]], the snapshot holds only the sizes and the
+   * collapsed and maximized states of the widgets. It is valid until
+   * a child is added, moved, or removed.
+   */
+  snapshotSizes(): SplitLayout.ISizesSnapshot {
+    let snapshot: SplitLayoutPrivate.ISizesSnapshot = {
+      sizers: this._sizerStates(),
+      maximized: this._maximized,
+    };
+    return snapshot;
+  }
+
+  /**
+   * Revert the sizes of the widgets to a snapshot.
+   *
+   * @param snapshot - The snapshot created by [[snapshotSizes]].
+   *
+   * #### Notes
+   * This is used to undo a canceled handle movement, so the change is
+   * attributed to the handle movement.
+   *
+   * This is a no-op if the number of children has changed.
+   */
+  revertSizes(snapshot: SplitLayout.ISizesSnapshot): void {
+    let { sizers, maximized } = snapshot as SplitLayoutPrivate.ISizesSnapshot;
+    if (sizers.length !== this._sizers.length) {
+      return;
+    }
+    this._cancelAnimation();
+    this._applySizerStates(sizers);
+    this._maximized = maximized;
+    this._normed = false;
+    this._reason = SizesChangeReason.UserDrag;
+    if (this.parent) this.parent.fit();
+  }
+
+  /**
+   * Save the full state of the layout.
+   *
+   * @returns A versioned JSON-compatible object which can be passed
+   *   to [[restoreState]] to recreate the current layout.
+   *
+   * #### Notes
+   * The saved sizes are in pixels, and the children are identified by
+   * their DOM id when one is set.
+   */
+  saveState(): SplitLayout.IState {
+    let horz = this._orientation === Orientation.Horizontal;
+    let children: SplitLayout.IChildState[] = [];
+    for (let i = 0, n = this._sizers.length; i < n; ++i) {
+      let child = this.childAt(i);
+      let sizer = this._sizers[i];
+      children.push({
+        id: child.id,
+        size: sizer.size,
+        hidden: child.isHidden,
+        collapsed: sizer.collapsed,
+        expandedSize: sizer.expandedSize,
+      });
+    }
+    return {
+      version: SplitLayout.STATE_VERSION,
+      orientation: horz ? 'horizontal' : 'vertical',
+      spacing: this._spacing,
+      children,
+    };
+  }
+
+  /**
+   * Restore the layout from a previously saved state.
+   *
+   * @param state - The state object created by [[saveState]].
+   *
+   * @returns `true` if the state was restored, or `false` if the
+   *   state version is not supported.
+   *
+   * #### Notes
+   * A child is matched to its saved state by DOM id when possible, and
+   * by index otherwise. A saved state is matched by index only if its
+   * id does not belong to another child of the layout. Children with
+   * no saved state keep their current size, and saved states with no
+   * matching child are ignored.
+   */
+  restoreState(state: SplitLayout.IState): boolean {
+    if (!state || state.version !== SplitLayout.STATE_VERSION || !state.children) {
+      return false;
+    }
+    this._cancelAnimation();
+    this._maximized = null;
+    let byId: { [id: string]: SplitLayout.IChildState } = Object.create(null);
+    for (let item of state.children) {
+      if (item.id) byId[item.id] = item;
+    }
+    let ids: { [id: string]: boolean } = Object.create(null);
+    for (let i = 0, n = this._sizers.length; i < n; ++i) {
+      let id = this.childAt(i).id;
+      if (id) ids[id] = true;
+    }
+    for (let i = 0, n = this._sizers.length; i < n; ++i) {
+      let child = this.childAt(i);
+      let item = SplitLayoutPrivate.matchState(state.children, byId, ids, child, i);
+      if (!item) {
+        continue;
+      }
+      let sizer = this._sizers[i];
+      sizer.sizeHint = sizer.size = Math.max(0, item.size);
+      sizer.collapsed = item.collapsed;
+      sizer.expandedSize = Math.max(0, item.expandedSize);
+      child.setHidden(item.hidden);
+    }
+    this._normed = false;
+    this._reason = SizesChangeReason.Programmatic;
+    this.spacing = state.spacing;
+    if (state.orientation === 'vertical') {
+      this.orientation = Orientation.Vertical;
+    } else {
+      this.orientation = Orientation.Horizontal;
+    }
+    if (this.parent) this.parent.fit();
+    return true;
+  }
+
+  /**
+   * Get the handle for the widget at the given index.
+   *
+   * @param index - The index of the handle of interest.
+   *
+   * @returns The handle for the given index, or `undefined`.
+   *
+   * #### Notes
+   * For a widget handle, this is the DOM node of the widget.
+   */
+  handleAt(index: number): HTMLElement {
+    return this._handles[index];
+  }
+
+  /**
+   * Get the handle widget for the widget at the given index.
+   *
+   * @param index - The index of the handle of interest.
+   *
+   * @returns The handle widget for the given index, or `null` if the
+   *   handle is not a widget or the index is invalid.
+   */
+  handleWidgetAt(index: number): Widget {
+    return this._handleWidgets[index] || null;
+  }
+
+  /**
+   * Get the range of positions a split handle can be moved to.
+   *
+   * @param index - The index of the handle of interest.
+   *
+   * @param snap - Whether to extend the range to the positions where
+   *   a collapsible neighbor of the handle snaps shut.
+   *
+   * @returns The minimum and maximum offset positions of the handle,
+   *   or `null` if the index is invalid or the handle is hidden.
+   *
+   * #### Notes
+   * The range reflects the size limits of the children. With `snap`,
+   * it is the same range which is enforced by [[moveHandle]]. For a
+   * linked layout, this is the intersection of the ranges of the
+   * handle in every linked layout, or `null` if the ranges do not
+   * overlap.
+   */
+  handleLimits(index: number, snap = false): SplitLayout.IHandleLimits {
+    return this._groupLimits(index, snap);
+  }
+
+  /**
+   * Move a split handle to the specified offset position.
+   *
+   * @param index - The index of the handle of the interest.
+   *
+   * @param position - The desired offset position of the handle. This
+   *   is the absolute position relative to the origin of the parent.
+   *
+   * @param options - The options for the movement.
+   *
+   * #### Notes
+   * This will move the handle as close as possible to the desired
+   * position. The sibling children will be adjusted as necessary.
+   *
+   * For a linked layout, the handle at the same index is moved in
+   * every linked layout, within the limits of all of the layouts. A
+   * collapsible widget may still be dragged past its limit to snap
+   * shut. If the resize hook of any linked layout cancels the move,
+   * the move is undone in all of the layouts.
+   */
+  moveHandle(index: number, position: number, options: SplitLayout.IMoveOptions = {}): void {
+    if (!this._linked) {
+      this._moveHandle(index, position, options);
+      return;
+    }
+    let limits = this._groupLimits(index, true);
+    if (!limits) {
+      return;
+    }
+    position = Math.max(limits.min, Math.min(position, limits.max));
+    let group = this._linked;
+    let snapshots = group.map(layout => layout.snapshotSizes());
+    for (let i = 0, n = group.length; i < n; ++i) {
+      if (!group[i]._moveHandle(index, position, options)) {
+        for (let j = 0; j <= i; ++j) group[j].revertSizes(snapshots[j]);
+        return;
+      }
+    }
+  }
+
+  /**
+   * Link the split layout with another split layout.
+   *
+   * @param other - The split layout to link with this layout. If it
+   *   is already linked with other layouts, the groups are merged.
+   *
+   * #### Notes
+   * Linked layouts share their handle positions: moving a handle in
+   * one layout moves the handle at the same index in the others. The
+   * positions are relative to the origin of each parent, so linked
+   * layouts are typically stacked with aligned origins, such as the
+   * header and body of a table.
+   *
+   * Linking does not move any handles. The handles are aligned on the
+   * next handle movement.
+   */
+  link(other: SplitLayout): void {
+    if (other === this || (this._linked && this._linked === other._linked)) {
+      return;
+    }
+    let group = (this._linked || [this]).concat(other._linked || [other]);
+    for (let layout of group) {
+      layout._linked = group;
+    }
+  }
+
+  /**
+   * Unlink the split layout from its linked layouts.
+   *
+   * #### Notes
+   * The other layouts remain linked with each other.
+   */
+  unlink(): void {
+    let group = this._linked;
+    if (!group) {
+      return;
+    }
+    this._linked = null;
+    arrays.remove(group, this);
+    if (group.length === 1) {
+      group[0]._linked = null;
+    }
+  }
+
+  /**
+   * Get the split layouts which are linked with the split layout.
+   *
+   * @returns A new array of the other layouts in the link group.
+   */
+  linkedLayouts(): SplitLayout[] {
+    if (!this._linked) {
+      return [];
+    }
+    return this._linked.filter(layout => layout !== this);
+  }
+
+  /**
+   * Initialize the children of the layout.
+   *
+   * #### Notes
+   * This method is called automatically when the layout is installed
+   * on its parent widget.
+   */
+  protected initialize(): void {
+    SplitLayoutPrivate.toggleOrientation(this.parent, this.orientation);
+    super.initialize();
+  }
+
+  /**
+   * Attach a child widget to the parent's DOM node.
+   *
+   * @param index - The current index of the child in the layout.
+   *
+   * @param child - The child widget to attach to the parent.
+   *
+   * #### Notes
+   * This is a reimplementation of the superclass method.
+   */
+  protected attachChild(index: number, child: Widget): void {
+    this._cancelAnimation();
+    this._paneRequests = [];
+    this._maximized = null;
+    this._reason = SizesChangeReason.ChildChange;
+    let context = this._handleContext(index);
+    let item = SplitLayoutPrivate.createHandle(this._factory, context);
+    let handleWidget = item instanceof Widget ? item : null;
+    let handle = handleWidget ? handleWidget.node : item as HTMLElement;
+    let average = SplitLayoutPrivate.averageSize(this._sizers);
+    let sizer = SplitLayoutPrivate.createSizer(average);
+    arrays.insert(this._sizers, index, sizer);
+    arrays.insert(this._handles, index, handle);
+    arrays.insert(this._handleWidgets, index, handleWidget);
+    SplitLayoutPrivate.prepareGeometry(child);
+    this.parent.node.appendChild(child.node);
     this.parent.node.appendChild(handle);
-    if (this.parent.isAttached) sendMessage(child, Widget.MsgAfterAttach);
+    if (this.parent.isAttached) {
+      sendMessage(child, Widget.MsgAfterAttach);
+      if (handleWidget) sendMessage(handleWidget, Widget.MsgAfterAttach);
+    }
+    this._updateHandles(index - 1);
     this.parent.fit();
   }
 
@@ -276,8 +1041,14 @@ class SplitLayout extends PanelLayout {
    * This is a reimplementation of the superclass method.
    */
   protected moveChild(fromIndex: number, toIndex: number, child: Widget): void {
+    this._cancelAnimation();
+    this._paneRequests = [];
+    this._maximized = null;
+    this._reason = SizesChangeReason.ChildChange;
     arrays.move(this._sizers, fromIndex, toIndex);
     arrays.move(this._handles, fromIndex, toIndex);
+    arrays.move(this._handleWidgets, fromIndex, toIndex);
+    this._updateHandles(Math.min(fromIndex, toIndex) - 1);
     this.parent.fit();  // fit instead of update to show/hide handles
   }
 
@@ -292,11 +1063,21 @@ class SplitLayout extends PanelLayout {
    * This is a reimplementation of the superclass method.
    */
   protected detachChild(index: number, child: Widget): void {
+    this._cancelAnimation();
+    this._paneRequests = [];
+    this._maximized = null;
+    this._reason = SizesChangeReason.ChildChange;
     let sizer = arrays.removeAt(this._sizers, index);
     let handle = arrays.removeAt(this._handles, index);
-    if (this.parent.isAttached) sendMessage(child, Widget.MsgBeforeDetach);
+    let handleWidget = arrays.removeAt(this._handleWidgets, index);
+    if (this.parent.isAttached) {
+      sendMessage(child, Widget.MsgBeforeDetach);
+      if (handleWidget) sendMessage(handleWidget, Widget.MsgBeforeDetach);
+    }
     this.parent.node.removeChild(child.node);
     this.parent.node.removeChild(handle);
+    this._disposeHandle(handle, handleWidget);
+    this._updateHandles(index - 1);
     SplitLayoutPrivate.resetGeometry(child);
     this.parent.fit();
   }
@@ -306,17 +1087,35 @@ class SplitLayout extends PanelLayout {
    */
   protected onAfterShow(msg: Message): void {
     super.onAfterShow(msg);
+    this._sendToHandles(msg);
     this.parent.update();
   }
 
+  /**
+   * A message handler invoked on a `'before-hide'` message.
+   */
+  protected onBeforeHide(msg: Message): void {
+    super.onBeforeHide(msg);
+    this._sendToHandles(msg);
+  }
+
   /**
    * A message handler invoked on an `'after-attach'` message.
    */
   protected onAfterAttach(msg: Message): void {
     super.onAfterAttach(msg);
+    this._sendToHandles(msg);
     this.parent.fit();
   }
 
+  /**
+   * A message handler invoked on a `'before-detach'` message.
+   */
+  protected onBeforeDetach(msg: Message): void {
+    super.onBeforeDetach(msg);
+    this._sendToHandles(msg);
+  }
+
   /**
    * A message handler invoked on a `'child-shown'` message.
    */
@@ -329,41 +1128,521 @@ class SplitLayout extends PanelLayout {
   }
 
   /**
-   * A message handler invoked on a `'child-hidden'` message.
+   * A message handler invoked on a `'child-hidden'` message.
+   */
+  protected onChildHidden(msg: ChildMessage): void {
+    if (SplitLayoutPrivate.IsIE) { // prevent flicker on IE
+      sendMessage(this.parent, Widget.MsgFitRequest);
+    } else {
+      this.parent.fit();
+    }
+  }
+
+  /**
+   * A message handler invoked on a `'resize'` message.
+   */
+  protected onResize(msg: ResizeMessage): void {
+    if (this.parent.isVisible) {
+      if (this._reason === null) {
+        this._reason = SizesChangeReason.ContainerResize;
+      }
+      this._update(msg.width, msg.height);
+    }
+  }
+
+  /**
+   * A message handler invoked on an `'update-request'` message.
+   */
+  protected onUpdateRequest(msg: Message): void {
+    if (this.parent.isVisible) {
+      this._update(-1, -1);
+    }
+  }
+
+  /**
+   * A message handler invoked on a `'fit-request'` message.
+   */
+  protected onFitRequest(msg: Message): void {
+    if (this.parent.isAttached) {
+      this._fit();
+    }
+  }
+
+  /**
+   * Get the range of positions a handle of the link group can be moved
+   * to, optionally extended to where a collapsible widget snaps shut.
+   */
+  private _groupLimits(index: number, snap: boolean): SplitLayout.IHandleLimits {
+    let limits = this._handleLimits(index, snap);
+    if (!limits || !this._linked) {
+      return limits;
+    }
+    for (let layout of this._linked) {
+      let other = layout === this ? null : layout._handleLimits(index, snap);
+      if (other) {
+        limits.min = Math.max(limits.min, other.min);
+        limits.max = Math.min(limits.max, other.max);
+      }
+    }
+    return limits.min <= limits.max ? limits : null;
+  }
+
+  /**
+   * Get the range of positions a handle of this layout can be moved to,
+   * optionally extended to where a collapsible widget snaps shut.
+   */
+  private _handleLimits(index: number, snap: boolean): SplitLayout.IHandleLimits {
+    let handle = this._handles[index];
+    if (!handle || handle.classList.contains(HIDDEN_CLASS)) {
+      return null;
+    }
+    let pos: number;
+    if (this._orientation === Orientation.Horizontal) {
+      pos = handle.offsetLeft;
+    } else {
+      pos = handle.offsetTop;
+    }
+    let shrink = Math.max(0, SplitLayoutPrivate.maxShrink(this._sizers, index));
+    let grow = Math.max(0, SplitLayoutPrivate.maxGrow(this._sizers, index));
+    if (snap) {
+      shrink = Math.max(shrink, this._collapsibleSize(index));
+      grow = Math.max(grow, this._collapsibleSize(this._nextVisible(index)));
+    }
+    if (this.isMirrored) {
+      return { min: pos - grow, max: pos + shrink };
+    }
+    return { min: pos - shrink, max: pos + grow };
+  }
+
+  /**
+   * Move a split handle of this layout to the given offset position.
+   *
+   * Returns `false` if the resize hook canceled the movement, `true`
+   * otherwise.
+   */
+  private _moveHandle(index: number, position: number, options: SplitLayout.IMoveOptions): boolean {
+    // Bail if the index is invalid or the handle is hidden.
+    let handle = this._handles[index];
+    if (!handle || handle.classList.contains(HIDDEN_CLASS)) {
+      return true;
+    }
+
+    // Compute the delta movement for the handle.
+    let delta: number;
+    if (this._orientation === Orientation.Horizontal) {
+      delta = position - handle.offsetLeft;
+    } else {
+      delta = position - handle.offsetTop;
+    }
+
+    // Bail if there is no handle movement.
+    if (delta === 0) {
+      return true;
+    }
+
+    // Map the movement to the layout order for a mirrored layout.
+    if (this.isMirrored) {
+      delta = -delta;
+    }
+
+    // Attribute the resulting size change to the handle movement.
+    this._cancelAnimation();
+    this._maximized = null;
+    this._reason = SizesChangeReason.UserDrag;
+
+    // Prevent item resizing unless needed.
+    for (let sizer of this._sizers) {
+      if (sizer.size > 0) sizer.sizeHint = sizer.size;
+    }
+
+    // Find the widgets which grow and shrink with the movement.
+    let next = this._nextVisible(index);
+    let growing = delta > 0 ? index : next;
+    let shrinking = delta > 0 ? next : index;
+    let amount = Math.abs(delta);
+
+    // Keep a collapsed widget shut until it is dragged past the snap
+    // threshold, then open it so it can be resized by the movement.
+    let opened = false;
+    let gSizer = this._sizers[growing];
+    if (gSizer && gSizer.collapsed) {
+      if (!options.reopen && amount < this._snapSize(growing)) {
+        return true;
+      }
+      opened = this._openSizer(growing);
+    }
+
+    // Snap a collapsible widget shut when it is dragged below the snap
+    // threshold, giving its space to the widget on the other side.
+    let sSizer = this._sizers[shrinking];
+    let sChild = this.childAt(shrinking);
+    if (sSizer && !sSizer.collapsed && SplitLayout.getCollapsible(sChild)) {
+      if (sSizer.size - amount < this._snapSize(shrinking)) {
+        this._collapseSizer(shrinking, growing);
+        if (this.parent) this.parent.fit();
+        return true;
+      }
+    }
+
+    // Adjust the sizers to reflect the movement.
+    let previous = this._sizers.map(s => s.sizeHint);
+    if (delta > 0) {
+      SplitLayoutPrivate.growSizer(this._sizers, index, delta);
+    } else {
+      SplitLayoutPrivate.shrinkSizer(this._sizers, index, -delta);
+    }
+
+    // Give the resize hook a chance to adjust or cancel the movement.
+    if (!this._runHook(SizesChangeReason.UserDrag, previous)) {
+      if (opened) {
+        gSizer.collapsed = true;
+        gSizer.minSize = gSizer.maxSize = 0;
+      }
+      this._reason = null;
+      return false;
+    }
+
+    // Bail if there is no parent to update.
+    if (!this.parent) {
+      return true;
+    }
+
+    // Update the layout of the child widgets. An opened widget also
+    // changes the size constraints, which are refit after the update.
+    if (opened) {
+      sendMessage(this.parent, Widget.MsgUpdateRequest);
+      this.parent.fit();
+    } else {
+      this.parent.update();
+    }
+    return true;
+  }
+
+  /**
+   * Start an animation of the sizers toward the given relative sizes.
+   */
+  private _animateSizes(sizes: number[], space: number, options: SplitLayout.IAnimationOptions): void {
+    // Compute the target sizes and give the hook a chance to adjust them.
+    let start = this._sizers.map(s => s.size);
+    let normed = SplitLayoutPrivate.normalize(sizes);
+    for (let i = 0, n = this._sizers.length; i < n; ++i) {
+      this._sizers[i].sizeHint = Math.max(0, normed[i] || 0) * space;
+    }
+    if (!this._runHook(SizesChangeReason.Programmatic, start)) {
+      this.animationFinished.emit(false);
+      return;
+    }
+    let end = this._sizers.map(s => s.sizeHint);
+    for (let i = 0, n = this._sizers.length; i < n; ++i) {
+      this._sizers[i].sizeHint = start[i];
+    }
+
+    // Setup the animation and request the first frame.
+    let duration = Math.max(0, options.duration === void 0 ? 250 : options.duration);
+    let easing = options.easing || SplitLayoutPrivate.easeInOut;
+    let startTime = Date.now();
+    let frameId = requestAnimationFrame(() => this._onAnimationFrame());
+    this._animation = { start, end, startTime, duration, easing, frameId };
+  }
+
+  /**
+   * Advance the current size animation by one frame.
+   */
+  private _onAnimationFrame(): void {
+    // Interpolate the sizer sizes for the current time.
+    let anim = this._animation;
+    let elapsed = Date.now() - anim.startTime;
+    let t = anim.duration > 0 ? Math.min(1, elapsed / anim.duration) : 1;
+    let f = anim.easing(t);
+    for (let i = 0, n = this._sizers.length; i < n; ++i) {
+      let size = anim.start[i] + (anim.end[i] - anim.start[i]) * f;
+      let sizer = this._sizers[i];
+      sizer.sizeHint = size;
+      sizer.size = size;
+    }
+
+    // Update the layout of the child widgets immediately.
+    this._reason = SizesChangeReason.Programmatic;
+    sendMessage(this.parent, Widget.MsgUpdateRequest);
+
+    // Request the next frame or finish the animation.
+    if (t < 1) {
+      anim.frameId = requestAnimationFrame(() => this._onAnimationFrame());
+      return;
+    }
+    this._animation = null;
+    this.animationFinished.emit(true);
+  }
+
+  /**
+   * Cancel the current size animation, if any.
+   *
+   * The sizers are left at their current sizes.
+   */
+  private _cancelAnimation(): void {
+    if (!this._animation) {
+      return;
+    }
+    cancelAnimationFrame(this._animation.frameId);
+    this._animation = null;
+    this.animationFinished.emit(false);
+  }
+
+  /**
+   * Adjust the sizer size hints for a change in the layout space.
+   *
+   * Fixed children keep their size, proportional children are scaled
+   * with the space, and the fill children absorb the remaining space
+   * according to their stretch factors. If every child is a fill child,
+   * the hints are left for the box engine to distribute.
+   *
+   * In proportional resize mode, every child is a proportional child.
+   */
+  private _applyPolicies(oldSpace: number, newSpace: number): void {
+    // Compute the policy of each child and bail if all are fill.
+    let policies: ResizePolicy[];
+    if (this._resizeMode === ResizeMode.Proportional) {
+      policies = this._sizers.map(() => ResizePolicy.Proportional);
+    } else {
+      policies = this._sizers.map((s, i) => SplitLayout.getResizePolicy(this.childAt(i)));
+    }
+    if (policies.every(p => p === ResizePolicy.Fill)) {
+      return;
+    }
+
+    // Size the fixed and proportional children and total the fill children.
+    let remaining = newSpace;
+    let fillSize = 0;
+    let fillStretch = 0;
+    let fillCount = 0;
+    for (let i = 0, n = this._sizers.length; i < n; ++i) {
+      let sizer = this._sizers[i];
+      if (this.childAt(i).isHidden || sizer.collapsed) {
+        continue;
+      }
+      switch (policies[i]) {
+      case ResizePolicy.Fixed:
+        remaining -= sizer.sizeHint;
+        break;
+      case ResizePolicy.Proportional:
+        sizer.sizeHint = sizer.sizeHint * newSpace / oldSpace;
+        remaining -= sizer.sizeHint;
+        break;
+      default:
+        fillSize += sizer.sizeHint;
+        fillStretch += sizer.stretch;
+        fillCount++;
+        break;
+      }
+    }
+
+    // Distribute the remaining space change to the fill children.
+    let delta = remaining - fillSize;
+    for (let i = 0, n = this._sizers.length; i < n; ++i) {
+      let sizer = this._sizers[i];
+      if (policies[i] !== ResizePolicy.Fill || this.childAt(i).isHidden || sizer.collapsed) {
+        continue;
+      }
+      let share = fillStretch > 0 ? sizer.stretch / fillStretch : 1 / fillCount;
+      sizer.sizeHint = Math.max(0, sizer.sizeHint + delta * share);
+    }
+  }
+
+  /**
+   * Adjust the sizer size hints to give a widget the requested size.
+   */
+  private _applyPaneSize(index: number, size: number, space: number): void {
+    // Bail if the widget has been removed or hidden.
+    let sizer = this._sizers[index];
+    if (!sizer || this.childAt(index).isHidden) {
+      return;
+    }
+
+    // Use the sizes distributed from the size hints as the starting
+    // sizes, since the widgets have no sizes before the first layout.
+    boxCalc(this._sizers, space);
+    for (let s of this._sizers) {
+      if (s.size > 0) s.sizeHint = s.size;
+    }
+
+    // Move the nearest handle to resize the widget.
+    let target = Math.max(sizer.minSize, Math.min(size, sizer.maxSize));
+    let delta = target - sizer.size;
+    let next = this._nextVisible(index);
+    let prev = this._prevVisible(index);
+    if (next !== -1) {
+      if (delta > 0) {
+        SplitLayoutPrivate.growSizer(this._sizers, index, delta);
+      } else {
+        SplitLayoutPrivate.shrinkSizer(this._sizers, index, -delta);
+      }
+    } else if (prev !== -1) {
+      if (delta > 0) {
+        SplitLayoutPrivate.shrinkSizer(this._sizers, prev, delta);
+      } else {
+        SplitLayoutPrivate.growSizer(this._sizers, prev, -delta);
+      }
+    } else {
+      sizer.sizeHint = target;
+    }
+  }
+
+  /**
+   * Run the resize hook against the current sizer size hints.
+   *
+   * Returns `true` if the resize should be applied. Otherwise, the
+   * size hints are reverted to the previous values and `false` is
+   * returned.
+   *
+   * A change to the total size made by the hook is taken from or
+   * given to the children whose sizes the hook left unchanged, from
+   * the last child to the first.
+   */
+  private _runHook(reason: SizesChangeReason, previous: number[]): boolean {
+    let hook = this._beforeResize;
+    if (!hook) {
+      return true;
+    }
+    let proposed = this._sizers.map(s => s.sizeHint);
+    let result = hook(this, { sizes: proposed.slice(), reason });
+    if (!result) {
+      for (let i = 0, n = this._sizers.length; i < n; ++i) {
+        this._sizers[i].sizeHint = previous[i];
+      }
+      return false;
+    }
+    let diff = 0;
+    for (let i = 0, n = this._sizers.length; i < n; ++i) {
+      let sizer = this._sizers[i];
+      let size = typeof result[i] === 'number' ? result[i] : proposed[i];
+      sizer.sizeHint = Math.max(sizer.minSize, Math.min(size, sizer.maxSize));
+      diff += proposed[i] - sizer.sizeHint;
+    }
+    for (let i = this._sizers.length - 1; i >= 0 && diff !== 0; --i) {
+      let sizer = this._sizers[i];
+      if (sizer.sizeHint !== proposed[i]) {
+        continue;
+      }
+      let hint = sizer.sizeHint + diff;
+      sizer.sizeHint = Math.max(sizer.minSize, Math.min(hint, sizer.maxSize));
+      diff -= sizer.sizeHint - proposed[i];
+    }
+    return true;
+  }
+
+  /**
+   * Update the handles from the given index to the end of the layout
+   * with their current contexts.
+   */
+  private _updateHandles(start: number): void {
+    if (!this._factory.updateHandle) {
+      return;
+    }
+    for (let i = Math.max(0, start), n = this._handles.length; i < n; ++i) {
+      this._factory.updateHandle(this._handleItem(i), this._handleContext(i));
+    }
+  }
+
+  /**
+   * Create the context object for the handle at the given index.
+   */
+  private _handleContext(index: number): IHandleContext {
+    let before = this.childAt(index);
+    let after = this.childAt(index + 1) || null;
+    return { index, orientation: this._orientation, before, after };
+  }
+
+  /**
+   * Find the index of the next visible widget after the given index.
+   *
+   * Returns `-1` if there is no visible widget after the index.
+   */
+  private _nextVisible(index: number): number {
+    for (let i = index + 1, n = this.childCount(); i < n; ++i) {
+      if (!this.childAt(i).isHidden) return i;
+    }
+    return -1;
+  }
+
+  /**
+   * Find the index of the previous visible widget before the given index.
+   *
+   * Returns `-1` if there is no visible widget before the index.
+   */
+  private _prevVisible(index: number): number {
+    for (let i = index - 1; i >= 0; --i) {
+      if (!this.childAt(i).isHidden) return i;
+    }
+    return -1;
+  }
+
+  /**
+   * Find the index of the sibling which absorbs a collapsed widget.
+   *
+   * This is the nearest visible and expanded sibling, preferring the
+   * siblings which follow the widget. Returns `-1` if there is none.
+   */
+  private _neighborOf(index: number): number {
+    for (let i = index + 1, n = this.childCount(); i < n; ++i) {
+      if (!this.childAt(i).isHidden && !this._sizers[i].collapsed) return i;
+    }
+    for (let i = index - 1; i >= 0; --i) {
+      if (!this.childAt(i).isHidden && !this._sizers[i].collapsed) return i;
+    }
+    return -1;
+  }
+
+  /**
+   * Compute the snap threshold size for the widget at the given index.
    */
-  protected onChildHidden(msg: ChildMessage): void {
-    if (SplitLayoutPrivate.IsIE) { // prevent flicker on IE
-      sendMessage(this.parent, Widget.MsgFitRequest);
-    } else {
-      this.parent.fit();
-    }
+  private _snapSize(index: number): number {
+    let child = this.childAt(index);
+    let limits = SplitLayoutPrivate.childLimits(child, this._orientation);
+    return limits.minSize * this._collapseThreshold;
   }
 
   /**
-   * A message handler invoked on a `'resize'` message.
+   * Get the size by which a collapsible widget can shrink until it is
+   * shut, or `0` if the widget is not collapsible or already collapsed.
    */
-  protected onResize(msg: ResizeMessage): void {
-    if (this.parent.isVisible) {
-      this._update(msg.width, msg.height);
+  private _collapsibleSize(index: number): number {
+    let sizer = this._sizers[index];
+    if (!sizer || sizer.collapsed || !SplitLayout.getCollapsible(this.childAt(index))) {
+      return 0;
     }
+    return sizer.size;
   }
 
   /**
-   * A message handler invoked on an `'update-request'` message.
+   * Collapse a sizer and give its space to the sizer at another index.
    */
-  protected onUpdateRequest(msg: Message): void {
-    if (this.parent.isVisible) {
-      this._update(-1, -1);
+  private _collapseSizer(index: number, recipient: number): void {
+    let sizer = this._sizers[index];
+    let other = this._sizers[recipient];
+    if (other) {
+      other.sizeHint = other.size = other.size + sizer.size;
     }
+    sizer.expandedSize = sizer.size;
+    sizer.sizeHint = sizer.size = 0;
+    sizer.collapsed = true;
   }
 
   /**
-   * A message handler invoked on a `'fit-request'` message.
+   * Clear the collapsed state of a sizer so that it can be resized.
+   *
+   * Returns `true` if the sizer was collapsed, `false` otherwise.
    */
-  protected onFitRequest(msg: Message): void {
-    if (this.parent.isAttached) {
-      this._fit();
+  private _openSizer(index: number): boolean {
+    let sizer = this._sizers[index];
+    if (!sizer || !sizer.collapsed) {
+      return false;
     }
+    let child = this.childAt(index);
+    let limits = SplitLayoutPrivate.childLimits(child, this._orientation);
+    sizer.minSize = limits.minSize;
+    sizer.maxSize = limits.maxSize;
+    sizer.collapsed = false;
+    return true;
   }
 
   /**
@@ -387,8 +1666,13 @@ class SplitLayout extends PanelLayout {
     // Hide the handle for the last visible child.
     if (lastHandle) lastHandle.classList.add(HIDDEN_CLASS);
 
-    // Update the fixed space for the visible items.
-    this._fixed = this._spacing * Math.max(0, nVisible - 1);
+    // Update the fixed space for the visible handles.
+    this._fixed = 0;
+    for (let i = 0, n = this.childCount(); i < n; ++i) {
+      if (!this._handles[i].classList.contains(HIDDEN_CLASS)) {
+        this._fixed += this._spacingAt(i);
+      }
+    }
 
     // Setup the initial size limits.
     let minW = 0;
@@ -411,30 +1695,36 @@ class SplitLayout extends PanelLayout {
       if (sizer.size > 0) {
         sizer.sizeHint = sizer.size;
       }
-      if (child.isHidden) {
+      if (child.isHidden || sizer.collapsed) {
         sizer.minSize = 0;
         sizer.maxSize = 0;
         continue;
       }
       let limits = sizeLimits(child.node);
+      let { minSize, maxSize } = SplitLayoutPrivate.childLimits(child, this._orientation, limits);
       sizer.stretch = SplitLayout.getStretch(child);
+      sizer.minSize = minSize;
+      sizer.maxSize = maxSize;
       if (horz) {
-        sizer.minSize = limits.minWidth;
-        sizer.maxSize = limits.maxWidth;
-        minW += limits.minWidth;
-        maxW += limits.maxWidth;
+        minW += minSize;
+        maxW += maxSize;
         minH = Math.max(minH, limits.minHeight);
         maxH = Math.min(maxH, limits.maxHeight);
       } else {
-        sizer.minSize = limits.minHeight;
-        sizer.maxSize = limits.maxHeight;
-        minH += limits.minHeight;
-        maxH += limits.maxHeight;
+        minH += minSize;
+        maxH += maxSize;
         minW = Math.max(minW, limits.minWidth);
         maxW = Math.min(maxW, limits.maxWidth);
       }
     }
 
+    // Resolve the layout direction.
+    if (this._direction === Direction.Auto) {
+      this._rtl = window.getComputedStyle(this.parent.node).direction === 'rtl';
+    } else {
+      this._rtl = this._direction === Direction.RightToLeft;
+    }
+
     // Update the box sizing and add it to the size constraints.
     let box = this._box = boxSizing(this.parent.node);
     minW += box.horizontalSum;
@@ -465,6 +1755,7 @@ class SplitLayout extends PanelLayout {
   private _update(offsetWidth: number, offsetHeight: number): void {
     // Bail early if there are no children to layout.
     if (this.childCount() === 0) {
+      this._notifySizes();
       return;
     }
 
@@ -494,90 +1785,539 @@ class SplitLayout extends PanelLayout {
       space = Math.max(0, height - this._fixed);
     }
 
-    // Scale the size hints if they are normalized.
+    // Scale the size hints if they are normalized. Otherwise, apply
+    // the child resize policies if the layout space has changed.
     if (this._normed) {
       for (let sizer of this._sizers) {
         sizer.sizeHint *= space;
       }
       this._normed = false;
+    } else if (this._lastSpace > 0 && this._lastSpace !== space) {
+      this._applyPolicies(this._lastSpace, space);
+    }
+    this._lastSpace = space;
+
+    // Apply the pending pane size requests.
+    if (this._paneRequests.length > 0) {
+      for (let request of this._paneRequests) {
+        this._applyPaneSize(request.index, request.size, space);
+      }
+      this._paneRequests = [];
+    }
+
+    // Run the resize hook for a pending programmatic resize.
+    if (this._hookPending) {
+      this._hookPending = false;
+      this._runHook(SizesChangeReason.Programmatic, this._hookPrevious);
+      this._hookPrevious = null;
     }
 
     // Distribute the layout space to the box sizers.
     boxCalc(this._sizers, space);
 
+    // Start at the right edge for a mirrored layout.
+    let mirrored = this.isMirrored;
+    if (mirrored) {
+      left += width;
+    }
+
     // Layout the children using the computed box sizes.
-    let spacing = this._spacing;
+    let prev = -1;
     for (let i = 0, n = this.childCount(); i < n; ++i) {
       let child = this.childAt(i);
       if (child.isHidden) {
         continue;
       }
-      let handle = this._handles[i];
+      if (prev !== -1) {
+        let handle = this._handles[prev];
+        let controls = [this.childAt(prev), child];
+        let before = this._sizers[prev];
+        let after = this._sizers[i];
+        SplitLayoutPrivate.updateAria(handle, this._orientation, before, after, controls);
+      }
+      prev = i;
+      let item = this._handleItem(i);
       let size = this._sizers[i].size;
-      if (horz) {
+      let spacing = this._spacingAt(i);
+      if (mirrored) {
+        left -= size;
+        SplitLayoutPrivate.setGeometry(child, left, top, size, height);
+        left -= spacing;
+        SplitLayoutPrivate.setHandleGeo(item, left, top, spacing, height);
+      } else if (horz) {
         SplitLayoutPrivate.setGeometry(child, left, top, size, height);
         left += size;
-        SplitLayoutPrivate.setHandleGeo(handle, left, top, spacing, height);
+        SplitLayoutPrivate.setHandleGeo(item, left, top, spacing, height);
         left += spacing;
       } else {
         SplitLayoutPrivate.setGeometry(child, left, top, width, size);
         top += size;
-        SplitLayoutPrivate.setHandleGeo(handle, left, top, width, spacing);
+        SplitLayoutPrivate.setHandleGeo(item, left, top, width, spacing);
         top += spacing;
       }
     }
+
+    // Notify listeners of any change to the sizes.
+    this._notifySizes();
+  }
+
+  /**
+   * Restore the sizers to the state saved by [[maximize]].
+   *
+   * This consumes the saved state.
+   */
+  private _restoreSizers(): void {
+    let saved = this._maximized.sizers;
+    this._maximized = null;
+    this._applySizerStates(saved);
+  }
+
+  /**
+   * Get the current states of the sizers.
+   */
+  private _sizerStates(): SplitLayoutPrivate.ISizerState[] {
+    return this._sizers.map(s => {
+      return { size: s.size, collapsed: s.collapsed, expandedSize: s.expandedSize };
+    });
+  }
+
+  /**
+   * Apply saved states to the sizers.
+   */
+  private _applySizerStates(saved: SplitLayoutPrivate.ISizerState[]): void {
+    for (let i = 0, n = this._sizers.length; i < n; ++i) {
+      let sizer = this._sizers[i];
+      sizer.sizeHint = sizer.size = saved[i].size;
+      sizer.collapsed = saved[i].collapsed;
+      sizer.expandedSize = saved[i].expandedSize;
+    }
+  }
+
+  /**
+   * Get the spacing of the handle for the given index.
+   */
+  private _spacingAt(index: number): number {
+    let value = SplitLayoutPrivate.handleSpacingProperty.get(this.childAt(index));
+    return value < 0 ? this._spacing : value;
+  }
+
+  /**
+   * Dispose of a split handle which was removed from the DOM.
+   */
+  private _disposeHandle(handle: HTMLElement, handleWidget: Widget): void {
+    if (this._factory.disposeHandle) {
+      this._factory.disposeHandle(handleWidget || handle);
+    } else if (handleWidget) {
+      handleWidget.dispose();
+    }
+  }
+
+  /**
+   * Get the handle widget or handle node for the given index.
+   */
+  private _handleItem(index: number): HTMLElement | Widget {
+    return this._handleWidgets[index] || this._handles[index];
+  }
+
+  /**
+   * Send a message to the handle widgets of the layout.
+   */
+  private _sendToHandles(msg: Message): void {
+    for (let i = 0, n = this._handleWidgets.length; i < n; ++i) {
+      let handleWidget = this._handleWidgets[i];
+      if (handleWidget) sendMessage(handleWidget, msg);
+    }
+  }
+
+  /**
+   * Emit the `sizesChanged` signal if the sizes have changed.
+   *
+   * This consumes the pending reason for the size change.
+   */
+  private _notifySizes(): void {
+    let reason = this._reason;
+    this._reason = null;
+    let sizes = this._sizers.map(s => s.size);
+    if (SplitLayoutPrivate.arraysEqual(sizes, this._lastSizes)) {
+      return;
+    }
+    this._lastSizes = sizes;
+    if (reason === null) {
+      reason = SizesChangeReason.Programmatic;
+    }
+    this.sizesChanged.emit({ sizes: this.sizes(), reason });
+  }
+
+  private _fixed = 0;
+  private _rtl = false;
+  private _spacing = 3;
+  private _normed = false;
+  private _collapseThreshold = 0.5;
+  private _resizeMode = ResizeMode.Stretch;
+  private _lastSizes: number[] = [];
+  private _lastSpace = 0;
+  private _hookPending = false;
+  private _hookPrevious: number[] = null;
+  private _paneRequests: SplitLayoutPrivate.IPaneRequest[] = [];
+  private _beforeResize: SplitLayout.ResizeHook = null;
+  private _animation: SplitLayoutPrivate.IAnimation = null;
+  private _reason: SizesChangeReason = null;
+  private _box: IBoxSizing = null;
+  private _factory: IHandleFactory;
+  private _sizers: SplitLayoutPrivate.Sizer[] = [];
+  private _handles: HTMLElement[] = [];
+  private _handleWidgets: Widget[] = [];
+  private _linked: SplitLayout[] = null;
+  private _maximized: SplitLayoutPrivate.IMaximized = null;
+  private _orientation = Orientation.Horizontal;
+  private _direction = Direction.LeftToRight;
+}
+
+
+/**
+ * The namespace for the `SplitLayout` class statics.
+ */
+export
+namespace SplitLayout {
+  /**
+   * A convenience alias of the `Horizontal` [[Orientation]].
+   */
+  export
+  const Horizontal = Orientation.Horizontal;
+
+  /**
+   * A convenience alias of the `Vertical` [[Orientation]].
+   */
+  export
+  const Vertical = Orientation.Vertical;
+
+  /**
+   * The arguments object for the `sizesChanged` signal.
+   */
+  export
+  interface ISizesChangedArgs {
+    /**
+     * The new normalized sizes of the children.
+     */
+    sizes: number[];
+
+    /**
+     * The reason for the size change.
+     */
+    reason: SizesChangeReason;
+  }
+
+  /**
+   * The options for animating a split layout size change.
+   */
+  export
+  interface IAnimationOptions {
+    /**
+     * Whether to animate the size change.
+     */
+    animate?: boolean;
+
+    /**
+     * The duration of the animation, in ms. The default is `250`.
+     */
+    duration?: number;
+
+    /**
+     * The easing function for the animation.
+     *
+     * This maps the linear progress of the animation in the range
+     * `[0, 1]` to the eased progress. The default is ease-in-out.
+     */
+    easing?: (t: number) => number;
+  }
+
+  /**
+   * The options for moving a split handle.
+   */
+  export
+  interface IMoveOptions {
+    /**
+     * Whether any movement opens a collapsed widget.
+     *
+     * By default, a collapsed widget is only opened once the handle is
+     * moved past its snap threshold. This is useful for keyboard steps,
+     * which are shorter than the threshold of a large widget.
+     */
+    reopen?: boolean;
+  }
+
+  /**
+   * The range of positions a split handle can be moved to.
+   */
+  export
+  interface IHandleLimits {
+    /**
+     * The minimum offset position of the handle, in pixels.
+     */
+    min: number;
+
+    /**
+     * The maximum offset position of the handle, in pixels.
+     */
+    max: number;
+  }
+
+  /**
+   * A resize proposal passed to a split layout resize hook.
+   */
+  export
+  interface IResizeProposal {
+    /**
+     * The proposed sizes of the children, in pixels.
+     */
+    sizes: number[];
+
+    /**
+     * The reason for the proposed resize.
+     */
+    reason: SizesChangeReason;
+  }
+
+  /**
+   * A hook invoked before a split layout resize is applied.
+   *
+   * The hook returns the sizes to apply, or `null` to cancel.
+   */
+  export
+  type ResizeHook = (layout: SplitLayout, proposal: IResizeProposal) => number[];
+
+  /**
+   * An opaque snapshot of the sizes of a split layout.
+   *
+   * This is created by [[SplitLayout.snapshotSizes]].
+   */
+  export
+  interface ISizesSnapshot { }
+
+  /**
+   * The version of the state objects created by a split layout.
+   */
+  export
+  const STATE_VERSION = 1;
+
+  /**
+   * The saved state of a split layout.
+   */
+  export
+  interface IState {
+    /**
+     * The version of the state format.
+     */
+    version: number;
+
+    /**
+     * The orientation of the layout.
+     */
+    orientation: 'horizontal' | 'vertical';
+
+    /**
+     * The inter-element spacing of the layout, in pixels.
+     */
+    spacing: number;
+
+    /**
+     * The saved states of the children, in layout order.
+     */
+    children: IChildState[];
+  }
+
+  /**
+   * The saved state of a child in a split layout.
+   */
+  export
+  interface IChildState {
+    /**
+     * The DOM id of the child, or an empty string.
+     */
+    id: string;
+
+    /**
+     * The size of the child along the layout, in pixels.
+     */
+    size: number;
+
+    /**
+     * Whether the child is hidden.
+     */
+    hidden: boolean;
+
+    /**
+     * Whether the child is collapsed.
+     */
+    collapsed: boolean;
+
+    /**
+     * The size of the child before it was collapsed, in pixels.
+     */
+    expandedSize: number;
+  }
+
+  /**
+   * Get the split layout stretch factor for the given widget.
+   *
+   * @param widget - The widget of interest.
+   *
+   * @returns The split layout stretch factor for the widget.
+   */
+  export
+  function getStretch(widget: Widget): number {
+    return SplitLayoutPrivate.stretchProperty.get(widget);
+  }
+
+  /**
+   * Set the split layout stretch factor for the given widget.
+   *
+   * @param widget - The widget of interest.
+   *
+   * @param value - The value for the stretch factor.
+   */
+  export
+  function setStretch(widget: Widget, value: number): void {
+    SplitLayoutPrivate.stretchProperty.set(widget, value);
+  }
+
+  /**
+   * Get the split layout minimum size for the given widget.
+   *
+   * @param widget - The widget of interest.
+   *
+   * @returns The minimum size of the widget along the layout, in pixels.
+   */
+  export
+  function getMinSize(widget: Widget): number {
+    return SplitLayoutPrivate.minSizeProperty.get(widget);
+  }
+
+  /**
+   * Set the split layout minimum size for the given widget.
+   *
+   * @param widget - The widget of interest.
+   *
+   * @param value - The minimum size of the widget along the layout.
+   *
+   * #### Notes
+   * This is combined with the CSS minimum size of the widget's node,
+   * and the larger of the two is used. The default is `0`.
+   */
+  export
+  function setMinSize(widget: Widget, value: number): void {
+    SplitLayoutPrivate.minSizeProperty.set(widget, value);
+  }
+
+  /**
+   * Get the split layout maximum size for the given widget.
+   *
+   * @param widget - The widget of interest.
+   *
+   * @returns The maximum size of the widget along the layout, in pixels.
+   */
+  export
+  function getMaxSize(widget: Widget): number {
+    return SplitLayoutPrivate.maxSizeProperty.get(widget);
   }
 
-  private _fixed = 0;
-  private _spacing = 3;
-  private _normed = false;
-  private _box: IBoxSizing = null;
-  private _factory: IHandleFactory;
-  private _sizers: BoxSizer[] = [];
-  private _handles: HTMLElement[] = [];
-  private _orientation = Orientation.Horizontal;
-}
+  /**
+   * Set the split layout maximum size for the given widget.
+   *
+   * @param widget - The widget of interest.
+   *
+   * @param value - The maximum size of the widget along the layout.
+   *
+   * #### Notes
+   * This is combined with the CSS maximum size of the widget's node,
+   * and the smaller of the two is used. The default is `Infinity`.
+   */
+  export
+  function setMaxSize(widget: Widget, value: number): void {
+    SplitLayoutPrivate.maxSizeProperty.set(widget, value);
+  }
 
+  /**
+   * Get the split layout resize policy for the given widget.
+   *
+   * @param widget - The widget of interest.
+   *
+   * @returns The resize policy for the widget.
+   */
+  export
+  function getResizePolicy(widget: Widget): ResizePolicy {
+    return SplitLayoutPrivate.resizePolicyProperty.get(widget);
+  }
 
-/**
- * The namespace for the `SplitLayout` class statics.
- */
-export
-namespace SplitLayout {
   /**
-   * A convenience alias of the `Horizontal` [[Orientation]].
+   * Set the split layout resize policy for the given widget.
+   *
+   * @param widget - The widget of interest.
+   *
+   * @param value - The resize policy for the widget.
+   *
+   * #### Notes
+   * The policy controls how the widget is resized when the space of
+   * the layout changes. The default is `ResizePolicy.Fill`.
    */
   export
-  const Horizontal = Orientation.Horizontal;
+  function setResizePolicy(widget: Widget, value: ResizePolicy): void {
+    SplitLayoutPrivate.resizePolicyProperty.set(widget, value);
+  }
 
   /**
-   * A convenience alias of the `Vertical` [[Orientation]].
+   * Get whether the given widget snaps shut when dragged small.
+   *
+   * @param widget - The widget of interest.
+   *
+   * @returns Whether the widget is collapsible.
    */
   export
-  const Vertical = Orientation.Vertical;
+  function getCollapsible(widget: Widget): boolean {
+    return SplitLayoutPrivate.collapsibleProperty.get(widget);
+  }
 
   /**
-   * Get the split layout stretch factor for the given widget.
+   * Set whether the given widget snaps shut when dragged small.
    *
    * @param widget - The widget of interest.
    *
-   * @returns The split layout stretch factor for the widget.
+   * @param value - Whether the widget is collapsible.
    */
   export
-  function getStretch(widget: Widget): number {
-    return SplitLayoutPrivate.stretchProperty.get(widget);
+  function setCollapsible(widget: Widget, value: boolean): void {
+    SplitLayoutPrivate.collapsibleProperty.set(widget, value);
   }
 
   /**
-   * Set the split layout stretch factor for the given widget.
+   * Get the spacing of the handle which follows the given widget.
    *
    * @param widget - The widget of interest.
    *
-   * @param value - The value for the stretch factor.
+   * @returns The handle spacing for the widget, or `-1` if the handle
+   *   uses the spacing of the layout.
    */
   export
-  function setStretch(widget: Widget, value: number): void {
-    SplitLayoutPrivate.stretchProperty.set(widget, value);
+  function getHandleSpacing(widget: Widget): number {
+    return SplitLayoutPrivate.handleSpacingProperty.get(widget);
+  }
+
+  /**
+   * Set the spacing of the handle which follows the given widget.
+   *
+   * @param widget - The widget of interest.
+   *
+   * @param value - The handle spacing for the widget, in pixels. A
+   *   negative value uses the spacing of the layout.
+   *
+   * #### Notes
+   * This overrides the layout spacing for a single handle, such as a
+   * thick gutter between the major regions of a panel. The default
+   * is `-1`.
+   */
+  export
+  function setHandleSpacing(widget: Widget, value: number): void {
+    SplitLayoutPrivate.handleSpacingProperty.set(widget, value);
   }
 }
 
@@ -592,6 +2332,131 @@ namespace SplitLayoutPrivate {
   export
   const IsIE = /Trident/.test(navigator.userAgent);
 
+  /**
+   * A signal emitted when the sizes of the children change.
+   */
+  export
+  const sizesChangedSignal = new Signal<SplitLayout, SplitLayout.ISizesChangedArgs>();
+
+  /**
+   * A signal emitted when a size animation finishes.
+   */
+  export
+  const animationFinishedSignal = new Signal<SplitLayout, boolean>();
+
+  /**
+   * An object which holds the saved state of a sizer.
+   */
+  export
+  interface ISizerState {
+    /**
+     * The size of the sizer.
+     */
+    size: number;
+
+    /**
+     * Whether the sizer was collapsed.
+     */
+    collapsed: boolean;
+
+    /**
+     * The expanded size of the sizer.
+     */
+    expandedSize: number;
+  }
+
+  /**
+   * An object which holds the state of a maximized layout.
+   */
+  export
+  interface IMaximized {
+    /**
+     * The index of the maximized widget.
+     */
+    index: number;
+
+    /**
+     * The states of the sizers before the maximize.
+     */
+    sizers: ISizerState[];
+  }
+
+  /**
+   * An object which holds a snapshot of the sizes of a layout.
+   */
+  export
+  interface ISizesSnapshot {
+    /**
+     * The states of the sizers.
+     */
+    sizers: ISizerState[];
+
+    /**
+     * The maximized state of the layout, or `null`.
+     */
+    maximized: IMaximized;
+  }
+
+  /**
+   * An object which holds a pending pane size request.
+   */
+  export
+  interface IPaneRequest {
+    /**
+     * The index of the widget to resize.
+     */
+    index: number;
+
+    /**
+     * The requested pixel size of the widget.
+     */
+    size: number;
+  }
+
+  /**
+   * An object which holds the state of a size animation.
+   */
+  export
+  interface IAnimation {
+    /**
+     * The sizer sizes at the start of the animation.
+     */
+    start: number[];
+
+    /**
+     * The sizer sizes at the end of the animation.
+     */
+    end: number[];
+
+    /**
+     * The time the animation started, in ms.
+     */
+    startTime: number;
+
+    /**
+     * The duration of the animation, in ms.
+     */
+    duration: number;
+
+    /**
+     * The easing function for the animation.
+     */
+    easing: (t: number) => number;
+
+    /**
+     * The id of the pending animation frame request.
+     */
+    frameId: number;
+  }
+
+  /**
+   * A cubic ease-in-out easing function.
+   */
+  export
+  function easeInOut(t: number): number {
+    return t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2;
+  }
+
   /**
    * The property descriptor for a widget stretch factor.
    */
@@ -603,23 +2468,143 @@ namespace SplitLayoutPrivate {
     changed: onChildPropertyChanged,
   });
 
+  /**
+   * The property descriptor for a widget minimum size.
+   */
+  export
+  const minSizeProperty = new Property<Widget, number>({
+    name: 'minSize',
+    value: 0,
+    coerce: (owner, value) => Math.max(0, value),
+    changed: onChildPropertyChanged,
+  });
+
+  /**
+   * The property descriptor for a widget maximum size.
+   */
+  export
+  const maxSizeProperty = new Property<Widget, number>({
+    name: 'maxSize',
+    value: Infinity,
+    coerce: (owner, value) => Math.max(0, value),
+    changed: onChildPropertyChanged,
+  });
+
+  /**
+   * The property descriptor for a widget resize policy.
+   */
+  export
+  const resizePolicyProperty = new Property<Widget, ResizePolicy>({
+    name: 'resizePolicy',
+    value: ResizePolicy.Fill,
+  });
+
+  /**
+   * The property descriptor for a widget collapsible flag.
+   */
+  export
+  const collapsibleProperty = new Property<Widget, boolean>({
+    name: 'collapsible',
+    value: false,
+    coerce: (owner, value) => !!value,
+  });
+
+  /**
+   * The property descriptor for a widget handle spacing.
+   */
+  export
+  const handleSpacingProperty = new Property<Widget, number>({
+    name: 'handleSpacing',
+    value: -1,
+    coerce: (owner, value) => value < 0 ? -1 : value | 0,
+    changed: onChildPropertyChanged,
+  });
+
+  /**
+   * An object which holds the size limits of a child along the layout.
+   */
+  export
+  interface IChildLimits {
+    /**
+     * The minimum size of the child, in pixels.
+     */
+    minSize: number;
+
+    /**
+     * The maximum size of the child, in pixels.
+     */
+    maxSize: number;
+  }
+
+  /**
+   * Compute the size limits of a child along the given orientation.
+   *
+   * This combines the CSS size limits of the child's node with the
+   * attached minimum and maximum size properties of the child.
+   */
+  export
+  function childLimits(widget: Widget, orient: Orientation, limits: ISizeLimits = sizeLimits(widget.node)): IChildLimits {
+    let horz = orient === Orientation.Horizontal;
+    let minSize = horz ? limits.minWidth : limits.minHeight;
+    let maxSize = horz ? limits.maxWidth : limits.maxHeight;
+    minSize = Math.max(minSize, minSizeProperty.get(widget));
+    maxSize = Math.min(maxSize, maxSizeProperty.get(widget));
+    return { minSize, maxSize: Math.max(minSize, maxSize) };
+  }
+
+  /**
+   * A box sizer which tracks the collapsed state of a split child.
+   */
+  export
+  class Sizer extends BoxSizer {
+    /**
+     * Whether the child is collapsed to zero size.
+     */
+    collapsed = false;
+
+    /**
+     * The size of the child before it was collapsed.
+     */
+    expandedSize = 0;
+  }
+
   /**
    * Create a new box sizer with the given size hint.
    */
   export
-  function createSizer(size: number): BoxSizer {
-    let sizer = new BoxSizer();
+  function createSizer(size: number): Sizer {
+    let sizer = new Sizer();
     sizer.sizeHint = size | 0;
     return sizer;
   }
 
+  /**
+   * Find the saved state which matches a child in a split layout.
+   *
+   * The `ids` map holds the DOM ids of the children of the layout. A
+   * saved state whose id belongs to another child is not matched by
+   * index, so that it is only used for that child.
+   */
+  export
+  function matchState(items: SplitLayout.IChildState[], byId: { [id: string]: SplitLayout.IChildState }, ids: { [id: string]: boolean }, child: Widget, index: number): SplitLayout.IChildState {
+    if (child.id && child.id in byId) {
+      return byId[child.id];
+    }
+    let item = items[index];
+    return item && !(item.id && item.id in ids) ? item : null;
+  }
+
   /**
    * Create a new split handle using the given factory.
    */
   export
-  function createHandle(factory: IHandleFactory): HTMLElement {
-    let handle = factory.createHandle();
-    handle.style.position = 'absolute';
+  function createHandle(factory: IHandleFactory, context: IHandleContext): HTMLElement | Widget {
+    let handle = factory.createHandle(context);
+    if (handle instanceof Widget) {
+      prepareGeometry(handle);
+    } else {
+      (handle as HTMLElement).style.position = 'absolute';
+    }
     return handle;
   }
 
@@ -691,16 +2676,47 @@ namespace SplitLayoutPrivate {
 
   /**
    * Set the layout geometry of a split handle.
+   *
+   * A widget handle is laid out like a child widget, so it is sent a
+   * resize message when its size changes.
    */
   export
-  function setHandleGeo(handle: HTMLElement, left: number, top: number, width: number, height: number): void {
-    let style = handle.style;
+  function setHandleGeo(handle: HTMLElement | Widget, left: number, top: number, width: number, height: number): void {
+    if (handle instanceof Widget) {
+      setGeometry(handle, left, top, width, height);
+      return;
+    }
+    let style = (handle as HTMLElement).style;
     style.top = `${top}px`;
     style.left = `${left}px`;
     style.width = `${width}px`;
     style.height = `${height}px`;
   }
 
+  /**
+   * Update the ARIA state of a split handle.
+   *
+   * The values are the pixel size of the preceding child and the
+   * range through which it may be resized against its neighbor. The
+   * controlled children are referenced only if they have a DOM id.
+   */
+  export
+  function updateAria(handle: HTMLElement, orient: Orientation, before: BoxSizer, after: BoxSizer, controls: Widget[]): void {
+    let min = before.minSize;
+    let max = Math.min(before.maxSize, before.size + after.size - after.minSize);
+    let ids = controls.map(widget => widget.id).filter(id => !!id).join(' ');
+    let horz = orient === Orientation.Horizontal;
+    handle.setAttribute('aria-orientation', horz ? 'vertical' : 'horizontal');
+    handle.setAttribute('aria-valuenow', `${Math.round(before.size)}`);
+    handle.setAttribute('aria-valuemin', `${Math.round(min)}`);
+    handle.setAttribute('aria-valuemax', `${Math.round(Math.max(min, max))}`);
+    if (ids) {
+      handle.setAttribute('aria-controls', ids);
+    } else {
+      handle.removeAttribute('aria-controls');
+    }
+  }
+
   /**
    * Compute the average size of the given box sizers.
    */
@@ -710,6 +2726,20 @@ namespace SplitLayoutPrivate {
     return sizers.reduce((v, s) => v + s.size, 0) / sizers.length;
   }
 
+  /**
+   * Test whether two arrays of numbers hold the same values.
+   */
+  export
+  function arraysEqual(a: number[], b: number[]): boolean {
+    if (a.length !== b.length) {
+      return false;
+    }
+    for (let i = 0, n = a.length; i < n; ++i) {
+      if (a[i] !== b[i]) return false;
+    }
+    return true;
+  }
+
   /**
    * Normalize an array of positive values.
    */
@@ -737,10 +2767,10 @@ namespace SplitLayoutPrivate {
   }
 
   /**
-   * Grow a sizer to the right by a positive delta and adjust neighbors.
+   * Compute the maximum amount a sizer can grow to the right.
    */
   export
-  function growSizer(sizers: BoxSizer[], index: number, delta: number): void {
+  function maxGrow(sizers: BoxSizer[], index: number): number {
     let growLimit = 0;
     for (let i = 0; i <= index; ++i) {
       let sizer = sizers[i];
@@ -751,7 +2781,33 @@ namespace SplitLayoutPrivate {
       let sizer = sizers[i];
       shrinkLimit += sizer.size - sizer.minSize;
     }
-    delta = Math.min(delta, growLimit, shrinkLimit);
+    return Math.min(growLimit, shrinkLimit);
+  }
+
+  /**
+   * Compute the maximum amount a sizer can shrink to the left.
+   */
+  export
+  function maxShrink(sizers: BoxSizer[], index: number): number {
+    let growLimit = 0;
+    for (let i = index + 1, n = sizers.length; i < n; ++i) {
+      let sizer = sizers[i];
+      growLimit += sizer.maxSize - sizer.size;
+    }
+    let shrinkLimit = 0;
+    for (let i = 0; i <= index; ++i) {
+      let sizer = sizers[i];
+      shrinkLimit += sizer.size - sizer.minSize;
+    }
+    return Math.min(growLimit, shrinkLimit);
+  }
+
+  /**
+   * Grow a sizer to the right by a positive delta and adjust neighbors.
+   */
+  export
+  function growSizer(sizers: BoxSizer[], index: number, delta: number): void {
+    delta = Math.min(delta, maxGrow(sizers, index));
     let grow = delta;
     for (let i = index; i >= 0 && grow > 0; --i) {
       let sizer = sizers[i];
@@ -783,17 +2839,7 @@ namespace SplitLayoutPrivate {
    */
   export
   function shrinkSizer(sizers: BoxSizer[], index: number, delta: number): void {
-    let growLimit = 0;
-    for (let i = index + 1, n = sizers.length; i < n; ++i) {
-      let sizer = sizers[i];
-      growLimit += sizer.maxSize - sizer.size;
-    }
-    let shrinkLimit = 0;
-    for (let i = 0; i <= index; ++i) {
-      let sizer = sizers[i];
-      shrinkLimit += sizer.size - sizer.minSize;
-    }
-    delta = Math.min(delta, growLimit, shrinkLimit);
+    delta = Math.min(delta, maxShrink(sizers, index));
     let grow = delta;
     for (let i = index + 1, n = sizers.length; i < n && grow > 0; ++i) {
       let sizer = sizers[i];
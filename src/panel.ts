@@ -8,7 +8,7 @@
 'use strict';
 
 import {
-  IDisposable
+  DisposableDelegate, IDisposable
 } from 'phosphor-disposable';
 
 import {
@@ -23,14 +23,26 @@ import {
   Panel
 } from 'phosphor-panel';
 
+import {
+  Property
+} from 'phosphor-properties';
+
+import {
+  ISignal, Signal
+} from 'phosphor-signaling';
+
 import {
   ChildMessage, Widget
 } from 'phosphor-widget';
 
 import {
-  Orientation, SplitLayout
+  Direction, IHandleContext, Orientation, ResizeMode, ResizePolicy, SplitLayout
 } from './layout';
 
+import {
+  ILayoutStore
+} from './store';
+
 
 /**
  * The class name added to SplitPanel instances.
@@ -47,6 +59,36 @@ const CHILD_CLASS = 'p-SplitPanel-child';
  */
 const HANDLE_CLASS = 'p-SplitPanel-handle';
 
+/**
+ * The class name of the regions which drag a split handle.
+ */
+const HANDLE_GRIP_CLASS = 'p-SplitPanel-handleGrip';
+
+/**
+ * The class name added to the hit area of a split handle.
+ */
+const HIT_AREA_CLASS = 'p-SplitPanel-hitArea';
+
+/**
+ * The class name added to split handles with a hit area.
+ */
+const HAS_HIT_AREA_CLASS = 'p-mod-hitArea';
+
+/**
+ * The class name added to the split panel live region.
+ */
+const ANNOUNCER_CLASS = 'p-SplitPanel-announcer';
+
+/**
+ * The class name added to the proxy handle of a deferred resize.
+ */
+const GHOST_CLASS = 'p-SplitPanel-ghost';
+
+/**
+ * The class name added to the drop indicator of a pane reorder.
+ */
+const DROP_INDICATOR_CLASS = 'p-SplitPanel-dropIndicator';
+
 
 /**
  * A panel which arranges its children into resizable sections.
@@ -66,12 +108,25 @@ class SplitPanel extends Panel {
   /**
    * Create a split handle for use in a split panel.
    *
+   * @param context - The context of the new handle.
+   *
    * #### Notes
-   * This may be reimplemented to create custom split handles.
+   * This may be reimplemented to create custom split handles, which
+   * may be DOM nodes or widgets. A subclass may also define static
+   * `updateHandle` and `disposeHandle` methods, which are used as
+   * described by [[IHandleFactory]].
+   *
+   * A handle is dragged and moved by keys from anywhere within it. A
+   * handle which contains elements with the `p-SplitPanel-handleGrip`
+   * class is instead only dragged and moved by keys from the handle
+   * node itself or from those elements, so that its other content,
+   * such as inputs or buttons, receives its own events.
    */
-  static createHandle(): HTMLElement {
+  static createHandle(context: IHandleContext): HTMLElement | Widget {
     let handle = document.createElement('div');
     handle.className = HANDLE_CLASS;
+    handle.tabIndex = 0;
+    handle.setAttribute('role', 'separator');
     return handle;
   }
 
@@ -81,6 +136,11 @@ class SplitPanel extends Panel {
   constructor() {
     super();
     this.addClass(SPLIT_PANEL_CLASS);
+    let layout = this.layout as SplitLayout;
+    layout.sizesChanged.connect(this._onSizesChanged, this);
+    layout.animationFinished.connect(this._onAnimationFinished, this);
+    this._announcer = SplitPanelPrivate.createAnnouncer();
+    this.node.appendChild(this._announcer);
   }
 
   /**
@@ -88,305 +148,1633 @@ class SplitPanel extends Panel {
    */
   dispose(): void {
     this._releaseMouse();
+    this._clearPersist();
     super.dispose();
   }
 
   /**
-   * Get the layout orientation for the split panel.
+   * A signal emitted when the user starts dragging a split handle.
+   *
+   * #### Notes
+   * The signal args are the index of the dragged handle.
    */
-  get orientation(): Orientation {
-    return (this.layout as SplitLayout).orientation;
+  get dragStarted(): ISignal<SplitPanel, number> {
+    return SplitPanelPrivate.dragStartedSignal.bind(this);
   }
 
   /**
-   * Set the layout orientation for the split panel.
+   * A signal emitted when the user moves a split handle.
+   *
+   * #### Notes
+   * This is emitted for handle drags and key presses. The position is
+   * the requested offset position passed to the layout, which may be
+   * adjusted to satisfy the size limits of the children.
    */
-  set orientation(value: Orientation) {
-    (this.layout as SplitLayout).orientation = value;
+  get handleMoved(): ISignal<SplitPanel, SplitPanel.IHandleMovedArgs> {
+    return SplitPanelPrivate.handleMovedSignal.bind(this);
   }
 
   /**
-   * Get the inter-element spacing for the split panel.
+   * A signal emitted when the user stops dragging a split handle.
+   *
+   * #### Notes
+   * The signal args are the index of the dragged handle.
    */
-  get spacing(): number {
-    return (this.layout as SplitLayout).spacing;
+  get dragEnded(): ISignal<SplitPanel, number> {
+    return SplitPanelPrivate.dragEndedSignal.bind(this);
   }
 
   /**
-   * Set the inter-element spacing for the split panel.
+   * A signal emitted when the user cancels dragging a split handle.
+   *
+   * #### Notes
+   * A drag is canceled by pressing `Escape` or by the browser canceling
+   * the pointer. The sizes are restored to those before the drag. The
+   * signal args are the index of the dragged handle.
    */
-  set spacing(value: number) {
-    (this.layout as SplitLayout).spacing = value;
+  get dragCanceled(): ISignal<SplitPanel, number> {
+    return SplitPanelPrivate.dragCanceledSignal.bind(this);
   }
 
   /**
-   * Get the normalized sizes of the widgets in the panel.
+   * A signal emitted when the sizes of the children change.
    *
-   * @returns The normalized sizes of the widgets in the panel.
+   * #### Notes
+   * This is a re-emission of the layout's `sizesChanged` signal.
    */
-  sizes(): number[] {
-    return (this.layout as SplitLayout).sizes();
+  get sizesChanged(): ISignal<SplitPanel, SplitLayout.ISizesChangedArgs> {
+    return SplitPanelPrivate.sizesChangedSignal.bind(this);
   }
 
   /**
-   * Set the relative sizes for the child widgets in the panel.
-   *
-   * @param sizes - The relative sizes for the children in the panel.
-   *   These values will be normalized to the available layout space.
+   * A signal emitted when a size animation finishes.
    *
    * #### Notes
-   * Extra values are ignored, too few will yield an undefined layout.
+   * This is a re-emission of the layout's `animationFinished` signal.
    */
-  setSizes(sizes: number[]): void {
-    (this.layout as SplitLayout).setSizes(sizes);
+  get animationFinished(): ISignal<SplitPanel, boolean> {
+    return SplitPanelPrivate.animationFinishedSignal.bind(this);
   }
 
   /**
-   * Get the split handle for the widget at the given index.
-   *
-   * @param index - The index of the widget of interest.
+   * A signal emitted when the user moves a pane to a new index.
    *
-   * @returns The split handle for the widget, or `undefined`.
+   * #### Notes
+   * This is only emitted for a pane dropped by a reorder drag. See
+   * [[reorderable]].
    */
-  handleAt(index: number): HTMLElement {
-    return (this.layout as SplitLayout).handleAt(index);
+  get paneMoved(): ISignal<SplitPanel, SplitPanel.IPaneMovedArgs> {
+    return SplitPanelPrivate.paneMovedSignal.bind(this);
   }
 
   /**
-   * Handle the DOM events for the split panel.
-   *
-   * @param event - The DOM event sent to the panel.
-   *
-   * #### Notes
-   * This method implements the DOM `EventListener` interface and is
-   * called in response to events on the panel's DOM node. It should
-   * not be called directly by user code.
+   * Get the layout orientation for the split panel.
    */
-  handleEvent(event: Event): void {
-    switch (event.type) {
-    case 'mousedown':
-      this._evtMouseDown(event as MouseEvent);
-      break;
-    case 'mousemove':
-      this._evtMouseMove(event as MouseEvent);
-      break;
-    case 'mouseup':
-      this._evtMouseUp(event as MouseEvent);
-      break;
-    case 'keydown':
-      this._evtKeyDown(event as KeyboardEvent);
-      break;
-    case 'keyup':
-    case 'keypress':
-    case 'contextmenu':
-      // Stop all input events during drag.
-      event.preventDefault();
-      event.stopPropagation();
-      break;
-    }
+  get orientation(): Orientation {
+    return (this.layout as SplitLayout).orientation;
   }
 
   /**
-   * A message handler invoked on an `'after-attach'` message.
+   * Set the layout orientation for the split panel.
    */
-  protected onAfterAttach(msg: Message): void {
-    this.node.addEventListener('mousedown', this);
+  set orientation(value: Orientation) {
+    (this.layout as SplitLayout).orientation = value;
   }
 
   /**
-   * A message handler invoked on a `'before-detach'` message.
+   * Get the layout direction for the split panel.
    */
-  protected onBeforeDetach(msg: Message): void {
-    this.node.removeEventListener('mousedown', this);
-    this._releaseMouse();
+  get direction(): Direction {
+    return (this.layout as SplitLayout).direction;
   }
 
   /**
-   * A message handler invoked on a `'child-added'` message.
+   * Set the layout direction for the split panel.
+   *
+   * #### Notes
+   * The direction only applies to a horizontal panel.
    */
-  protected onChildAdded(msg: ChildMessage): void {
-    msg.child.addClass(CHILD_CLASS);
-    this._releaseMouse();
+  set direction(value: Direction) {
+    (this.layout as SplitLayout).direction = value;
   }
 
   /**
-   * A message handler invoked on a `'child-removed'` message.
+   * Get the inter-element spacing for the split panel.
    */
-  protected onChildRemoved(msg: ChildMessage): void {
-    msg.child.removeClass(CHILD_CLASS);
-    this._releaseMouse();
+  get spacing(): number {
+    return (this.layout as SplitLayout).spacing;
   }
 
   /**
-   * Handle the `'keydown'` event for the split panel.
+   * Set the inter-element spacing for the split panel.
    */
-  private _evtKeyDown(event: KeyboardEvent): void {
-    // Stop all input events during drag.
-    event.preventDefault();
-    event.stopPropagation();
-
-    // Release the mouse if `Escape` is pressed.
-    if (event.keyCode === 27) this._releaseMouse();
+  set spacing(value: number) {
+    (this.layout as SplitLayout).spacing = value;
   }
 
   /**
-   * Handle the `'mousedown'` event for the split panel.
+   * Get the keyboard step size for the split panel.
+   *
+   * #### Notes
+   * This is the distance, in pixels, a focused split handle is moved
+   * for each press of an arrow key.
    */
-  private _evtMouseDown(event: MouseEvent): void {
-    // Do nothing if the left mouse button is not pressed.
-    if (event.button !== 0) {
-      return;
-    }
-
-    // Find the handle which contains the target, if any.
-    let layout = this.layout as SplitLayout;
-    let target = event.target as HTMLElement;
-    let { index, handle } = SplitPanelPrivate.findHandle(layout, target);
-    if (index === -1) {
-      return;
-    }
-
-    // Stop the event when a split handle is pressed.
-    event.preventDefault();
-    event.stopPropagation();
-
-    // Add the extra document listeners.
-    document.addEventListener('mouseup', this, true);
-    document.addEventListener('mousemove', this, true);
-    document.addEventListener('keydown', this, true);
-    document.addEventListener('keyup', this, true);
-    document.addEventListener('keypress', this, true);
-    document.addEventListener('contextmenu', this, true);
-
-    // Compute the offset delta for the handle press.
-    let delta: number;
-    let rect = handle.getBoundingClientRect();
-    if (layout.orientation === Orientation.Horizontal) {
-      delta = event.clientX - rect.left;
-    } else {
-      delta = event.clientY - rect.top;
-    }
-
-    // Override the cursor and store the press data.
-    let style = window.getComputedStyle(handle);
-    let override = overrideCursor(style.cursor);
-    this._pressData = { index, delta, override };
+  get stepSize(): number {
+    return this._stepSize;
   }
 
   /**
-   * Handle the `'mousemove'` event for the split panel.
+   * Set the keyboard step size for the split panel.
    */
-  private _evtMouseMove(event: MouseEvent): void {
-    // Stop the event when dragging a split handle.
-    event.preventDefault();
-    event.stopPropagation();
-
-    // Compute the desired offset position for the handle.
-    let pos: number;
-    let layout = this.layout as SplitLayout;
-    let rect = this.node.getBoundingClientRect();
-    if (layout.orientation === Orientation.Horizontal) {
-      pos = event.clientX - rect.left - this._pressData.delta;
-    } else {
-      pos = event.clientY - rect.top - this._pressData.delta;
-    }
-
-    // Move the handle as close to the desired position as possible.
-    layout.moveHandle(this._pressData.index, pos);
+  set stepSize(value: number) {
+    this._stepSize = Math.max(1, value | 0);
   }
 
   /**
-   * Handle the `'mouseup'` event for the split panel.
+   * Get whether handle drags defer the resize until release.
+   *
+   * #### Notes
+   * When enabled, dragging a handle moves only a translucent proxy of
+   * the handle, and the children are resized once when the handle is
+   * released. This is useful when the children are costly to layout.
+   *
+   * The default is `false`.
    */
-  private _evtMouseUp(event: MouseEvent): void {
-    // Do nothing if the left mouse button is not released.
-    if (event.button !== 0) {
-      return;
-    }
-
-    // Stop the event when releasing a handle.
-    event.preventDefault();
-    event.stopPropagation();
-
-    // Finalize the mouse release.
-    this._releaseMouse();
+  get deferResize(): boolean {
+    return this._deferResize;
   }
 
   /**
-   * Release the mouse grab for the split panel.
+   * Set whether handle drags defer the resize until release.
+   *
+   * #### Notes
+   * A change takes effect on the next handle drag.
    */
-  private _releaseMouse(): void {
-    // Bail early if no drag is in progress.
-    if (!this._pressData) {
-      return;
-    }
-
-    // Clear the override cursor.
-    this._pressData.override.dispose();
-    this._pressData = null;
-
-    // Remove the extra document listeners.
-    document.removeEventListener('mouseup', this, true);
-    document.removeEventListener('mousemove', this, true);
-    document.removeEventListener('keydown', this, true);
-    document.removeEventListener('keyup', this, true);
-    document.removeEventListener('keypress', this, true);
-    document.removeEventListener('contextmenu', this, true);
+  set deferResize(value: boolean) {
+    this._deferResize = value;
   }
 
-  private _pressData: SplitPanelPrivate.IPressData = null;
-}
-
-
-/**
- * The namespace for the `SplitPanel` class statics.
- */
-export
-namespace SplitPanel {
   /**
-   * A convenience alias of the `Horizontal` [[Orientation]].
+   * Get whether resizes are announced to assistive technology.
+   *
+   * #### Notes
+   * When enabled, a polite live region announces the new size of the
+   * resized pane after a handle drag or key press finishes.
+   *
+   * The default is `false`.
    */
-  export
-  const Horizontal = Orientation.Horizontal;
+  get announceResize(): boolean {
+    return this._announceResize;
+  }
 
   /**
-   * A convenience alias of the `Vertical` [[Orientation]].
+   * Set whether resizes are announced to assistive technology.
    */
-  export
-  const Vertical = Orientation.Vertical;
+  set announceResize(value: boolean) {
+    this._announceResize = value;
+  }
 
   /**
-   * Get the split panel stretch factor for the given widget.
+   * Get the size of the interactive hit area of the split handles.
    *
-   * @param widget - The widget of interest.
+   * #### Notes
+   * The hit area is centered on the handle and overlaps the adjacent
+   * children, so a handle can be thinner than the area which can be
+   * pressed to drag it. The visual size of the handle is the spacing.
    *
-   * @returns The split panel stretch factor for the widget.
+   * A value of `0` uses the hit area of the stylesheet. The default
+   * is `0`.
+   *
+   * The hit area is only added to the default split handles, and not
+   * to custom handles which lack the `p-SplitPanel-handle` class or
+   * to widget handles.
    */
-  export
-  function getStretch(widget: Widget): number {
-    return SplitLayout.getStretch(widget);
+  get handleHitSize(): number {
+    return this._handleHitSize;
   }
 
   /**
-   * Set the split panel stretch factor for the given widget.
+   * Set the size of the interactive hit area of the split handles.
+   */
+  set handleHitSize(value: number) {
+    value = Math.max(0, value | 0);
+    if (this._handleHitSize === value) {
+      return;
+    }
+    this._handleHitSize = value;
+    this._hitOrientation = null;
+    this.update();
+  }
+
+  /**
+   * Get whether the user can reorder the panes by dragging them.
    *
-   * @param widget - The widget of interest.
+   * #### Notes
+   * When enabled, a pane is dragged by pressing its drag region, and
+   * is moved to the slot under the pointer when it is dropped. A drop
+   * indicator is shown between the panes while dragging. Panes with
+   * no drag region cannot be dragged. See [[SplitPanel.setDragRegion]].
    *
-   * @param value - The value for the stretch factor.
+   * The default is `false`.
    */
-  export
-  function setStretch(widget: Widget, value: number): void {
-    SplitLayout.setStretch(widget, value);
+  get reorderable(): boolean {
+    return this._reorderable;
   }
-}
 
-
-/**
+  /**
+   * Set whether the user can reorder the panes by dragging them.
+   *
+   * #### Notes
+   * A change takes effect on the next press.
+   */
+  set reorderable(value: boolean) {
+    this._reorderable = value;
+  }
+
+  /**
+   * Get the accessible label text for the split panel.
+   */
+  get labels(): SplitPanel.ILabels {
+    return this._labels;
+  }
+
+  /**
+   * Set the accessible label text for the split panel.
+   *
+   * #### Notes
+   * This can be used to localize the handle labels and the resize
+   * announcements.
+   */
+  set labels(value: SplitPanel.ILabels) {
+    this._labels = value;
+    this.update();
+  }
+
+  /**
+   * Get the resize mode for the split panel.
+   */
+  get resizeMode(): ResizeMode {
+    return (this.layout as SplitLayout).resizeMode;
+  }
+
+  /**
+   * Set the resize mode for the split panel.
+   *
+   * #### Notes
+   * In proportional mode, the relative sizes of the children are kept
+   * when the panel is resized.
+   */
+  set resizeMode(value: ResizeMode) {
+    (this.layout as SplitLayout).resizeMode = value;
+  }
+
+  /**
+   * Get the snap threshold for collapsible widgets.
+   *
+   * #### Notes
+   * This is a fraction of a widget's minimum size.
+   */
+  get collapseThreshold(): number {
+    return (this.layout as SplitLayout).collapseThreshold;
+  }
+
+  /**
+   * Set the snap threshold for collapsible widgets.
+   */
+  set collapseThreshold(value: number) {
+    (this.layout as SplitLayout).collapseThreshold = value;
+  }
+
+  /**
+   * Get the hook invoked before a resize is applied.
+   */
+  get beforeResize(): SplitLayout.ResizeHook {
+    return (this.layout as SplitLayout).beforeResize;
+  }
+
+  /**
+   * Set the hook invoked before a resize is applied.
+   *
+   * #### Notes
+   * See [[SplitLayout.beforeResize]] for the details of the hook.
+   */
+  set beforeResize(value: SplitLayout.ResizeHook) {
+    (this.layout as SplitLayout).beforeResize = value;
+  }
+
+  /**
+   * Get the index of the maximized widget.
+   *
+   * #### Notes
+   * This is `-1` if no widget is maximized.
+   *
+   * This is a read-only property.
+   */
+  get maximizedIndex(): number {
+    return (this.layout as SplitLayout).maximizedIndex;
+  }
+
+  /**
+   * Get the normalized sizes of the widgets in the panel.
+   *
+   * @returns The normalized sizes of the widgets in the panel.
+   */
+  sizes(): number[] {
+    return (this.layout as SplitLayout).sizes();
+  }
+
+  /**
+   * Set the relative sizes for the child widgets in the panel.
+   *
+   * @param sizes - The relative sizes for the children in the panel.
+   *   These values will be normalized to the available layout space.
+   *
+   * @param options - The options for animating the size change.
+   *
+   * #### Notes
+   * Extra values are ignored, too few will yield an undefined layout.
+   */
+  setSizes(sizes: number[], options?: SplitLayout.IAnimationOptions): void {
+    (this.layout as SplitLayout).setSizes(sizes, options);
+  }
+
+  /**
+   * Get the pixel sizes of the widgets in the panel.
+   *
+   * @returns The pixel sizes of the widgets in the panel.
+   */
+  pixelSizes(): number[] {
+    return (this.layout as SplitLayout).pixelSizes();
+  }
+
+  /**
+   * Set the pixel sizes for the child widgets in the panel.
+   *
+   * @param sizes - The pixel sizes for the children in the panel.
+   *
+   * #### Notes
+   * Extra values are ignored, too few will yield an undefined layout.
+   */
+  setPixelSizes(sizes: number[]): void {
+    (this.layout as SplitLayout).setPixelSizes(sizes);
+  }
+
+  /**
+   * Set the pixel size of a single widget in the panel.
+   *
+   * @param index - The index of the widget of interest.
+   *
+   * @param size - The desired pixel size of the widget.
+   */
+  setPaneSize(index: number, size: number): void {
+    (this.layout as SplitLayout).setPaneSize(index, size);
+  }
+
+  /**
+   * Save the full state of the panel layout.
+   *
+   * @returns A versioned JSON-compatible object for [[restoreState]].
+   */
+  saveState(): SplitLayout.IState {
+    return (this.layout as SplitLayout).saveState();
+  }
+
+  /**
+   * Restore the panel layout from a previously saved state.
+   *
+   * @param state - The state object created by [[saveState]].
+   *
+   * @returns `true` if the state was restored, `false` otherwise.
+   */
+  restoreState(state: SplitLayout.IState): boolean {
+    return (this.layout as SplitLayout).restoreState(state);
+  }
+
+  /**
+   * Persist the panel layout to a layout store.
+   *
+   * @param store - The store which holds the layout state.
+   *
+   * @param key - The key of the layout state in the store.
+   *
+   * @returns A disposable which stops the persistence when disposed.
+   *
+   * #### Notes
+   * The layout is restored from the store when the panel is attached,
+   * or immediately if it is already attached. It is saved to the store
+   * shortly after a handle drag or key press finishes.
+   *
+   * A panel persists to at most one store; calling this method again
+   * replaces the previous store. A pending save is written to the old
+   * store when it is replaced, when the persistence is stopped, or when
+   * the panel is disposed.
+   */
+  persistTo(store: ILayoutStore, key: string): IDisposable {
+    this._clearPersist();
+    let persist = this._persist = { store, key, timerId: 0 };
+    if (this.isAttached) this._restorePersist();
+    return new DisposableDelegate(() => {
+      if (this._persist === persist) this._clearPersist();
+    });
+  }
+
+  /**
+   * Test whether the widget at the given index is collapsed.
+   *
+   * @param index - The index of the widget of interest.
+   *
+   * @returns `true` if the widget is collapsed, `false` otherwise.
+   */
+  isCollapsed(index: number): boolean {
+    return (this.layout as SplitLayout).isCollapsed(index);
+  }
+
+  /**
+   * Collapse the widget at the given index to zero size.
+   *
+   * @param index - The index of the widget to collapse.
+   */
+  collapse(index: number): void {
+    (this.layout as SplitLayout).collapse(index);
+  }
+
+  /**
+   * Expand a collapsed widget to its size before it was collapsed.
+   *
+   * @param index - The index of the widget to expand.
+   */
+  expand(index: number): void {
+    (this.layout as SplitLayout).expand(index);
+  }
+
+  /**
+   * Maximize the widget at the given index.
+   *
+   * @param index - The index of the widget of interest.
+   *
+   * #### Notes
+   * The other widgets are shrunk to their minimum size. The prior
+   * sizes can be recovered by [[restore]].
+   */
+  maximize(index: number): void {
+    (this.layout as SplitLayout).maximize(index);
+  }
+
+  /**
+   * Restore the sizes from before the widget was maximized.
+   */
+  restore(): void {
+    (this.layout as SplitLayout).restore();
+  }
+
+  /**
+   * Get the split handle for the widget at the given index.
+   *
+   * @param index - The index of the widget of interest.
+   *
+   * @returns The split handle for the widget, or `undefined`.
+   */
+  handleAt(index: number): HTMLElement {
+    return (this.layout as SplitLayout).handleAt(index);
+  }
+
+  /**
+   * Get the split handle widget for the widget at the given index.
+   *
+   * @param index - The index of the widget of interest.
+   *
+   * @returns The split handle widget for the widget, or `null` if the
+   *   handle is not a widget.
+   */
+  handleWidgetAt(index: number): Widget {
+    return (this.layout as SplitLayout).handleWidgetAt(index);
+  }
+
+  /**
+   * Link the split panel with another split panel.
+   *
+   * @param other - The split panel to link with this panel.
+   *
+   * #### Notes
+   * Moving a handle in a linked panel moves the handle at the same
+   * index in the other linked panels. See [[SplitLayout.link]].
+   */
+  link(other: SplitPanel): void {
+    (this.layout as SplitLayout).link(other.layout as SplitLayout);
+  }
+
+  /**
+   * Unlink the split panel from its linked panels.
+   */
+  unlink(): void {
+    (this.layout as SplitLayout).unlink();
+  }
+
+  /**
+   * Handle the DOM events for the split panel.
+   *
+   * @param event - The DOM event sent to the panel.
+   *
+   * #### Notes
+   * This method implements the DOM `EventListener` interface and is
+   * called in response to events on the panel's DOM node. It should
+   * not be called directly by user code.
+   */
+  handleEvent(event: Event): void {
+    switch (event.type) {
+    case 'pointerdown':
+      this._evtPointerDown(event as PointerEvent);
+      break;
+    case 'pointermove':
+      this._evtPointerMove(event as PointerEvent);
+      break;
+    case 'pointerup':
+    case 'pointercancel':
+      this._evtPointerUp(event as PointerEvent);
+      break;
+    case 'touchstart':
+      this._evtTouchStart(event as TouchEvent);
+      break;
+    case 'touchmove':
+      this._evtTouchMove(event as TouchEvent);
+      break;
+    case 'touchend':
+    case 'touchcancel':
+      this._evtTouchEnd(event as TouchEvent);
+      break;
+    case 'mousedown':
+      this._evtMouseDown(event as MouseEvent);
+      break;
+    case 'mousemove':
+      this._evtMouseMove(event as MouseEvent);
+      break;
+    case 'mouseup':
+      this._evtMouseUp(event as MouseEvent);
+      break;
+    case 'keydown':
+      if (this._pressData) {
+        this._evtKeyDown(event as KeyboardEvent);
+      } else {
+        this._evtHandleKeyDown(event as KeyboardEvent);
+      }
+      break;
+    case 'keyup':
+    case 'keypress':
+    case 'contextmenu':
+      // Stop all input events during drag.
+      event.preventDefault();
+      event.stopPropagation();
+      break;
+    }
+  }
+
+  /**
+   * A message handler invoked on an `'update-request'` message.
+   */
+  protected onUpdateRequest(msg: Message): void {
+    // Sync the accessible labels of the handles.
+    let layout = this.layout as SplitLayout;
+    let label = this._labels.handle;
+    for (let i = 0, n = layout.childCount(); i < n; ++i) {
+      let handle = layout.handleAt(i);
+      if (handle.getAttribute('aria-label') !== label) {
+        handle.setAttribute('aria-label', label);
+      }
+    }
+
+    // Sync the hit areas of the handles if the hit size, the handles,
+    // or the orientation have changed since the last sync.
+    if (layout.orientation !== this._hitOrientation) {
+      let hitSize = this._handleHitSize;
+      let horz = layout.orientation === Orientation.Horizontal;
+      for (let i = 0, n = layout.childCount(); i < n; ++i) {
+        let handle = layout.handleAt(i);
+        if (!layout.handleWidgetAt(i) && handle.classList.contains(HANDLE_CLASS)) {
+          SplitPanelPrivate.syncHitArea(handle, hitSize, horz);
+        }
+      }
+      this._hitOrientation = layout.orientation;
+    }
+
+    // Announce the pending resize, if any.
+    if (this._announceIndex !== -1) {
+      let index = this._announceIndex;
+      this._announceIndex = -1;
+      let size = Math.round(layout.sizes()[index] * 100);
+      let text = this._labels.resized.replace('{size}', `${size}`);
+      this._announcer.textContent = text;
+    }
+  }
+
+  /**
+   * A message handler invoked on an `'after-attach'` message.
+   */
+  protected onAfterAttach(msg: Message): void {
+    this._restorePersist();
+    if (SplitPanelPrivate.HasPointerEvents) {
+      this.node.addEventListener('pointerdown', this);
+    } else {
+      this.node.addEventListener('mousedown', this);
+      this.node.addEventListener('touchstart', this);
+    }
+    this.node.addEventListener('keydown', this);
+  }
+
+  /**
+   * A message handler invoked on a `'before-detach'` message.
+   */
+  protected onBeforeDetach(msg: Message): void {
+    this.node.removeEventListener('pointerdown', this);
+    this.node.removeEventListener('mousedown', this);
+    this.node.removeEventListener('touchstart', this);
+    this.node.removeEventListener('keydown', this);
+    this._releaseMouse();
+  }
+
+  /**
+   * A message handler invoked on a `'child-added'` message.
+   */
+  protected onChildAdded(msg: ChildMessage): void {
+    msg.child.addClass(CHILD_CLASS);
+    this._hitOrientation = null;
+    this._releaseMouse();
+  }
+
+  /**
+   * A message handler invoked on a `'child-removed'` message.
+   */
+  protected onChildRemoved(msg: ChildMessage): void {
+    msg.child.removeClass(CHILD_CLASS);
+    this._releaseMouse();
+  }
+
+  /**
+   * Handle the `'keydown'` event for the split panel.
+   */
+  private _evtKeyDown(event: KeyboardEvent): void {
+    // Stop all input events during drag.
+    event.preventDefault();
+    event.stopPropagation();
+
+    // Cancel the drag if `Escape` is pressed.
+    if (event.keyCode === 27) this._cancelDrag();
+  }
+
+  /**
+   * Handle the `'keydown'` event for a focused split handle.
+   */
+  private _evtHandleKeyDown(event: KeyboardEvent): void {
+    // Do nothing if a modifier key is pressed.
+    if (event.altKey || event.ctrlKey || event.metaKey) {
+      return;
+    }
+
+    // Find the handle which contains the target, if any.
+    let layout = this.layout as SplitLayout;
+    let target = event.target as HTMLElement;
+    let { index, handle } = SplitPanelPrivate.findHandle(layout, target);
+    if (index === -1) {
+      return;
+    }
+
+    // Compute the current offset position and extent of the handle.
+    let pos: number;
+    let extent: number;
+    let horz = layout.orientation === Orientation.Horizontal;
+    if (horz) {
+      pos = handle.offsetLeft;
+      extent = this.node.offsetWidth;
+    } else {
+      pos = handle.offsetTop;
+      extent = this.node.offsetHeight;
+    }
+
+    // Compute the desired offset position for the key. The `Home` and
+    // `End` keys move toward the start and end of the layout order.
+    let step = this._stepSize;
+    let mirrored = layout.isMirrored;
+    switch (event.keyCode) {
+    case 35:  // End
+      pos = mirrored ? 0 : extent;
+      break;
+    case 36:  // Home
+      pos = mirrored ? extent : 0;
+      break;
+    case 37:  // Left Arrow
+      if (!horz) return;
+      pos -= step;
+      break;
+    case 38:  // Up Arrow
+      if (horz) return;
+      pos -= step;
+      break;
+    case 39:  // Right Arrow
+      if (!horz) return;
+      pos += step;
+      break;
+    case 40:  // Down Arrow
+      if (horz) return;
+      pos += step;
+      break;
+    default:
+      return;
+    }
+
+    // Stop the event when a split handle is moved.
+    event.preventDefault();
+    event.stopPropagation();
+
+    // Move the handle as close to the desired position as possible. An
+    // arrow key step always opens a collapsed pane.
+    let reopen = event.keyCode >= 37 && event.keyCode <= 40;
+    layout.moveHandle(index, pos, { reopen });
+    this.handleMoved.emit({ index, position: pos });
+
+    // Finalize the resize once the layout is updated.
+    this._resizeFinished(index);
+  }
+
+  /**
+   * Handle the `'pointerdown'` event for the split panel.
+   */
+  private _evtPointerDown(event: PointerEvent): void {
+    // Do nothing if a drag is in progress or the pointer is secondary.
+    if (this._pressData || !event.isPrimary) {
+      return;
+    }
+
+    // Do nothing if the left mouse button is not pressed.
+    if (event.pointerType === 'mouse' && event.button !== 0) {
+      return;
+    }
+
+    // Start the drag if a split handle is pressed.
+    let target = event.target as HTMLElement;
+    if (!this._startDrag(target, event.clientX, event.clientY, event.pointerId)) {
+      return;
+    }
+
+    // Stop the event when a split handle is pressed.
+    event.preventDefault();
+    event.stopPropagation();
+
+    // Capture the pointer so the drag survives leaving the handle.
+    target.setPointerCapture(event.pointerId);
+
+    // Add the extra document listeners.
+    document.addEventListener('pointermove', this, true);
+    document.addEventListener('pointerup', this, true);
+    document.addEventListener('pointercancel', this, true);
+  }
+
+  /**
+   * Handle the `'pointermove'` event for the split panel.
+   */
+  private _evtPointerMove(event: PointerEvent): void {
+    // Ignore pointers other than the one which started the drag.
+    if (event.pointerId !== this._pressData.pointerId) {
+      return;
+    }
+
+    // Stop the event when dragging a split handle.
+    event.preventDefault();
+    event.stopPropagation();
+
+    // Move the handle to follow the pointer.
+    this._moveDrag(event.clientX, event.clientY);
+  }
+
+  /**
+   * Handle the `'pointerup'` and `'pointercancel'` events for the panel.
+   */
+  private _evtPointerUp(event: PointerEvent): void {
+    // Ignore pointers other than the one which started the drag.
+    if (event.pointerId !== this._pressData.pointerId) {
+      return;
+    }
+
+    // Stop the event when releasing a handle.
+    event.preventDefault();
+    event.stopPropagation();
+
+    // Finalize or cancel the drag.
+    if (event.type === 'pointercancel') {
+      this._cancelDrag();
+    } else {
+      this._finishDrag();
+    }
+  }
+
+  /**
+   * Handle the `'touchstart'` event for the split panel.
+   */
+  private _evtTouchStart(event: TouchEvent): void {
+    // Reject multi-touch gestures.
+    if (this._pressData || event.touches.length !== 1) {
+      return;
+    }
+
+    // Start the drag if a split handle is touched.
+    let touch = event.changedTouches[0];
+    let target = event.target as HTMLElement;
+    if (!this._startDrag(target, touch.clientX, touch.clientY, touch.identifier)) {
+      return;
+    }
+
+    // Stop the event when a split handle is touched.
+    event.preventDefault();
+    event.stopPropagation();
+
+    // Add the extra document listeners.
+    document.addEventListener('touchmove', this, true);
+    document.addEventListener('touchend', this, true);
+    document.addEventListener('touchcancel', this, true);
+  }
+
+  /**
+   * Handle the `'touchmove'` event for the split panel.
+   */
+  private _evtTouchMove(event: TouchEvent): void {
+    // Ignore touches other than the one which started the drag.
+    let touch = SplitPanelPrivate.findTouch(event, this._pressData.pointerId);
+    if (!touch) {
+      return;
+    }
+
+    // Stop the event when dragging a split handle.
+    event.preventDefault();
+    event.stopPropagation();
+
+    // Move the handle to follow the touch.
+    this._moveDrag(touch.clientX, touch.clientY);
+  }
+
+  /**
+   * Handle the `'touchend'` and `'touchcancel'` events for the panel.
+   */
+  private _evtTouchEnd(event: TouchEvent): void {
+    // Ignore touches other than the one which started the drag.
+    let touch = SplitPanelPrivate.findTouch(event, this._pressData.pointerId);
+    if (!touch) {
+      return;
+    }
+
+    // Stop the event when releasing a handle.
+    event.preventDefault();
+    event.stopPropagation();
+
+    // Finalize or cancel the drag.
+    if (event.type === 'touchcancel') {
+      this._cancelDrag();
+    } else {
+      this._finishDrag();
+    }
+  }
+
+  /**
+   * Handle the `'mousedown'` event for the split panel.
+   *
+   * #### Notes
+   * This is only used by browsers without support for pointer events.
+   */
+  private _evtMouseDown(event: MouseEvent): void {
+    // Do nothing if a drag is in progress or the left button is not pressed.
+    if (this._pressData || event.button !== 0) {
+      return;
+    }
+
+    // Start the drag if a split handle is pressed.
+    let target = event.target as HTMLElement;
+    if (!this._startDrag(target, event.clientX, event.clientY, -1)) {
+      return;
+    }
+
+    // Stop the event when a split handle is pressed.
+    event.preventDefault();
+    event.stopPropagation();
+
+    // Add the extra document listeners.
+    document.addEventListener('mouseup', this, true);
+    document.addEventListener('mousemove', this, true);
+  }
+
+  /**
+   * Handle the `'mousemove'` event for the split panel.
+   */
+  private _evtMouseMove(event: MouseEvent): void {
+    // Stop the event when dragging a split handle.
+    event.preventDefault();
+    event.stopPropagation();
+
+    // Move the handle to follow the mouse.
+    this._moveDrag(event.clientX, event.clientY);
+  }
+
+  /**
+   * Handle the `'mouseup'` event for the split panel.
+   */
+  private _evtMouseUp(event: MouseEvent): void {
+    // Do nothing if the left mouse button is not released.
+    if (event.button !== 0) {
+      return;
+    }
+
+    // Stop the event when releasing a handle.
+    event.preventDefault();
+    event.stopPropagation();
+
+    // Finalize the drag.
+    this._finishDrag();
+  }
+
+  /**
+   * Start a handle drag for a press at the given client position.
+   *
+   * Returns `true` if the target is a split handle, `false` otherwise.
+   */
+  private _startDrag(target: HTMLElement, clientX: number, clientY: number, pointerId: number): boolean {
+    // Find the handle which contains the target, if any.
+    let layout = this.layout as SplitLayout;
+    let { index, handle } = SplitPanelPrivate.findHandle(layout, target);
+    if (index === -1) {
+      return this._startReorder(target, clientX, clientY, pointerId);
+    }
+
+    // Add the extra document listeners.
+    document.addEventListener('keydown', this, true);
+    document.addEventListener('keyup', this, true);
+    document.addEventListener('keypress', this, true);
+    document.addEventListener('contextmenu', this, true);
+
+    // Compute the offset delta for the handle press.
+    let delta: number;
+    let rect = handle.getBoundingClientRect();
+    if (layout.orientation === Orientation.Horizontal) {
+      delta = clientX - rect.left;
+    } else {
+      delta = clientY - rect.top;
+    }
+
+    // Create the proxy handle for a deferred resize.
+    let ghost: HTMLElement = null;
+    let limits: SplitLayout.IHandleLimits = null;
+    if (this._deferResize) {
+      ghost = SplitPanelPrivate.createGhost(handle);
+      limits = layout.handleLimits(index, true);
+      this.node.appendChild(ghost);
+    }
+
+    // Snapshot the sizes of the linked layouts as well, since they are
+    // moved with the handle, so that a canceled drag can be undone.
+    let layouts = [layout].concat(layout.linkedLayouts());
+    let sizes = layouts.map(other => other.snapshotSizes());
+
+    // Override the cursor and store the press data.
+    let style = window.getComputedStyle(handle);
+    let override = overrideCursor(style.cursor);
+    let reorder: SplitPanelPrivate.IReorderData = null;
+    this._pressData = { index, delta, pointerId, override, ghost, limits, layouts, sizes, reorder };
+    this.dragStarted.emit(index);
+    return true;
+  }
+
+  /**
+   * Start a pane reorder for a press at the given client position.
+   *
+   * Returns `true` if the target is a pane drag region, `false` otherwise.
+   */
+  private _startReorder(target: HTMLElement, clientX: number, clientY: number, pointerId: number): boolean {
+    // Find the pane whose drag region contains the target, if any.
+    if (!this._reorderable) {
+      return false;
+    }
+    let layout = this.layout as SplitLayout;
+    let index = SplitPanelPrivate.findDragRegion(layout, target);
+    if (index === -1) {
+      return false;
+    }
+
+    // Add the extra document listeners.
+    document.addEventListener('keydown', this, true);
+    document.addEventListener('keyup', this, true);
+    document.addEventListener('keypress', this, true);
+    document.addEventListener('contextmenu', this, true);
+
+    // Store the press data. The reorder starts once the press moves.
+    let reorder = { clientX, clientY, active: false, slot: -1, indicator: null as HTMLElement };
+    this._pressData = {
+      index, delta: 0, pointerId, override: null, ghost: null,
+      limits: null, layouts: null, sizes: null, reorder,
+    };
+    return true;
+  }
+
+  /**
+   * Move the drop indicator of a pane reorder to the given position.
+   */
+  private _moveReorder(clientX: number, clientY: number): void {
+    // Start the reorder once the press has moved far enough.
+    let reorder = this._pressData.reorder;
+    if (!reorder.active) {
+      let dx = Math.abs(clientX - reorder.clientX);
+      let dy = Math.abs(clientY - reorder.clientY);
+      if (dx < SplitPanelPrivate.DRAG_THRESHOLD && dy < SplitPanelPrivate.DRAG_THRESHOLD) {
+        return;
+      }
+      reorder.active = true;
+      reorder.indicator = SplitPanelPrivate.createIndicator();
+      this.node.appendChild(reorder.indicator);
+      this._pressData.override = overrideCursor('move');
+    }
+
+    // Find the slot under the pointer and move the indicator to it.
+    let layout = this.layout as SplitLayout;
+    let rect = this.node.getBoundingClientRect();
+    let horz = layout.orientation === Orientation.Horizontal;
+    let pos = horz ? clientX - rect.left : clientY - rect.top;
+    reorder.slot = SplitPanelPrivate.findDropSlot(layout, pos);
+    SplitPanelPrivate.placeIndicator(reorder.indicator, layout, reorder.slot);
+  }
+
+  /**
+   * Finish the current pane reorder and move the dropped pane.
+   */
+  private _finishReorder(): void {
+    // Release the press before the child is moved.
+    let { index, reorder } = this._pressData;
+    this._releaseMouse();
+
+    // Bail if the pane was not dropped at a new index.
+    if (!reorder.active || reorder.slot === -1) {
+      return;
+    }
+    let toIndex = reorder.slot > index ? reorder.slot - 1 : reorder.slot;
+    if (toIndex === index) {
+      return;
+    }
+
+    // Move the pane, which keeps its size and handle.
+    this.insertChild(toIndex, this.childAt(index));
+    this.paneMoved.emit({ fromIndex: index, toIndex });
+    this._schedulePersist();
+  }
+
+  /**
+   * Move the dragged handle to follow the given client position.
+   */
+  private _moveDrag(clientX: number, clientY: number): void {
+    // Move the drop indicator for a pane reorder.
+    if (this._pressData.reorder) {
+      this._moveReorder(clientX, clientY);
+      return;
+    }
+
+    // Compute the desired offset position for the handle.
+    let pos: number;
+    let layout = this.layout as SplitLayout;
+    let rect = this.node.getBoundingClientRect();
+    if (layout.orientation === Orientation.Horizontal) {
+      pos = clientX - rect.left - this._pressData.delta;
+    } else {
+      pos = clientY - rect.top - this._pressData.delta;
+    }
+
+    // Move the proxy handle for a deferred resize, clamped to the
+    // range the layout will enforce when the handle is released.
+    let { index, ghost, limits } = this._pressData;
+    if (ghost) {
+      pos = Math.max(limits.min, Math.min(pos, limits.max));
+      if (layout.orientation === Orientation.Horizontal) {
+        ghost.style.left = `${pos}px`;
+      } else {
+        ghost.style.top = `${pos}px`;
+      }
+      this.handleMoved.emit({ index, position: pos });
+      return;
+    }
+
+    // Move the handle as close to the desired position as possible.
+    layout.moveHandle(index, pos);
+    this.handleMoved.emit({ index, position: pos });
+  }
+
+  /**
+   * Finish the current handle drag.
+   */
+  private _finishDrag(): void {
+    // Drop the pane for a pane reorder.
+    if (this._pressData.reorder) {
+      this._finishReorder();
+      return;
+    }
+
+    // Apply a deferred resize at the proxy handle position.
+    let { index, ghost } = this._pressData;
+    if (ghost) {
+      let layout = this.layout as SplitLayout;
+      let horz = layout.orientation === Orientation.Horizontal;
+      layout.moveHandle(index, horz ? ghost.offsetLeft : ghost.offsetTop);
+    }
+
+    // Finalize the resize for the dragged handle.
+    this._resizeFinished(this._pressData.index);
+
+    // Finalize the release.
+    this._releaseMouse();
+  }
+
+  /**
+   * Cancel the current handle drag and restore the original sizes.
+   */
+  private _cancelDrag(): void {
+    // Restore the layout unless the resize was deferred.
+    let { ghost, layouts, sizes, reorder } = this._pressData;
+    if (!ghost && !reorder) {
+      for (let i = 0, n = layouts.length; i < n; ++i) {
+        layouts[i].revertSizes(sizes[i]);
+      }
+    }
+
+    // Release the drag as canceled.
+    this._releaseMouse(true);
+  }
+
+  /**
+   * Handle the completion of a user resize of the given handle.
+   */
+  private _resizeFinished(index: number): void {
+    // Schedule a save of the persisted layout.
+    this._schedulePersist();
+
+    // Request an announcement once the layout is updated.
+    if (this._announceResize) {
+      this._announceIndex = index;
+      this.update();
+    }
+  }
+
+  /**
+   * Restore the layout from the persistence store, if any.
+   */
+  private _restorePersist(): void {
+    if (!this._persist) {
+      return;
+    }
+    let state = this._persist.store.load(this._persist.key);
+    if (state) this.restoreState(state);
+  }
+
+  /**
+   * Schedule a debounced save of the layout to the persistence store.
+   */
+  private _schedulePersist(): void {
+    let persist = this._persist;
+    if (!persist) {
+      return;
+    }
+    clearTimeout(persist.timerId);
+    persist.timerId = setTimeout(() => {
+      persist.timerId = 0;
+      persist.store.save(persist.key, this.saveState());
+    }, SplitPanelPrivate.SAVE_DELAY);
+  }
+
+  /**
+   * Clear the persistence store, flushing any pending save.
+   */
+  private _clearPersist(): void {
+    let persist = this._persist;
+    if (!persist) {
+      return;
+    }
+    this._persist = null;
+    if (persist.timerId) {
+      clearTimeout(persist.timerId);
+      persist.store.save(persist.key, this.saveState());
+    }
+  }
+
+  /**
+   * Release the pointer grab for the split panel.
+   *
+   * The drag is reported as canceled if `canceled` is `true`.
+   */
+  private _releaseMouse(canceled = false): void {
+    // Bail early if no drag is in progress.
+    if (!this._pressData) {
+      return;
+    }
+
+    // Clear the override cursor, proxy handle, and press data.
+    let { index, override, ghost, reorder } = this._pressData;
+    if (ghost) this.node.removeChild(ghost);
+    if (reorder && reorder.indicator) this.node.removeChild(reorder.indicator);
+    if (override) override.dispose();
+    this._pressData = null;
+
+    // Remove the extra document listeners.
+    document.removeEventListener('pointermove', this, true);
+    document.removeEventListener('pointerup', this, true);
+    document.removeEventListener('pointercancel', this, true);
+    document.removeEventListener('touchmove', this, true);
+    document.removeEventListener('touchend', this, true);
+    document.removeEventListener('touchcancel', this, true);
+    document.removeEventListener('mouseup', this, true);
+    document.removeEventListener('mousemove', this, true);
+    document.removeEventListener('keydown', this, true);
+    document.removeEventListener('keyup', this, true);
+    document.removeEventListener('keypress', this, true);
+    document.removeEventListener('contextmenu', this, true);
+
+    // Notify listeners that the drag has ended or was canceled.
+    if (reorder) {
+      return;
+    }
+    if (canceled) {
+      this.dragCanceled.emit(index);
+    } else {
+      this.dragEnded.emit(index);
+    }
+  }
+
+  /**
+   * Handle the `sizesChanged` signal from the layout.
+   */
+  private _onSizesChanged(sender: SplitLayout, args: SplitLayout.ISizesChangedArgs): void {
+    this.sizesChanged.emit(args);
+  }
+
+  /**
+   * Handle the `animationFinished` signal from the layout.
+   */
+  private _onAnimationFinished(sender: SplitLayout, completed: boolean): void {
+    this.animationFinished.emit(completed);
+  }
+
+  private _stepSize = 10;
+  private _announceIndex = -1;
+  private _announceResize = false;
+  private _deferResize = false;
+  private _reorderable = false;
+  private _handleHitSize = 0;
+  private _hitOrientation: Orientation = null;
+  private _announcer: HTMLElement;
+  private _labels = SplitPanel.defaultLabels;
+  private _pressData: SplitPanelPrivate.IPressData = null;
+  private _persist: SplitPanelPrivate.IPersistData = null;
+}
+
+
+/**
+ * The namespace for the `SplitPanel` class statics.
+ */
+export
+namespace SplitPanel {
+  /**
+   * A convenience alias of the `Horizontal` [[Orientation]].
+   */
+  export
+  const Horizontal = Orientation.Horizontal;
+
+  /**
+   * A convenience alias of the `Vertical` [[Orientation]].
+   */
+  export
+  const Vertical = Orientation.Vertical;
+
+  /**
+   * The arguments object for the `handleMoved` signal.
+   */
+  export
+  interface IHandleMovedArgs {
+    /**
+     * The index of the moved handle.
+     */
+    index: number;
+
+    /**
+     * The requested offset position of the handle, in pixels.
+     */
+    position: number;
+  }
+
+  /**
+   * The arguments object for the `paneMoved` signal.
+   */
+  export
+  interface IPaneMovedArgs {
+    /**
+     * The previous index of the moved pane.
+     */
+    fromIndex: number;
+
+    /**
+     * The current index of the moved pane.
+     */
+    toIndex: number;
+  }
+
+  /**
+   * An object which holds the accessible label text for a split panel.
+   */
+  export
+  interface ILabels {
+    /**
+     * The `aria-label` applied to the split handles.
+     */
+    handle: string;
+
+    /**
+     * The text announced after a pane is resized.
+     *
+     * The token `{size}` is replaced with the size of the pane which
+     * precedes the resized handle, as a percentage of the panel.
+     */
+    resized: string;
+  }
+
+  /**
+   * The default accessible label text for a split panel.
+   */
+  export
+  const defaultLabels: ILabels = {
+    handle: 'Resize panes',
+    resized: 'Pane resized to {size} percent',
+  };
+
+  /**
+   * Get the split panel stretch factor for the given widget.
+   *
+   * @param widget - The widget of interest.
+   *
+   * @returns The split panel stretch factor for the widget.
+   */
+  export
+  function getStretch(widget: Widget): number {
+    return SplitLayout.getStretch(widget);
+  }
+
+  /**
+   * Set the split panel stretch factor for the given widget.
+   *
+   * @param widget - The widget of interest.
+   *
+   * @param value - The value for the stretch factor.
+   */
+  export
+  function setStretch(widget: Widget, value: number): void {
+    SplitLayout.setStretch(widget, value);
+  }
+
+  /**
+   * Get the split panel minimum size for the given widget.
+   *
+   * @param widget - The widget of interest.
+   *
+   * @returns The minimum size of the widget along the panel, in pixels.
+   */
+  export
+  function getMinSize(widget: Widget): number {
+    return SplitLayout.getMinSize(widget);
+  }
+
+  /**
+   * Set the split panel minimum size for the given widget.
+   *
+   * @param widget - The widget of interest.
+   *
+   * @param value - The minimum size of the widget along the panel.
+   */
+  export
+  function setMinSize(widget: Widget, value: number): void {
+    SplitLayout.setMinSize(widget, value);
+  }
+
+  /**
+   * Get the split panel maximum size for the given widget.
+   *
+   * @param widget - The widget of interest.
+   *
+   * @returns The maximum size of the widget along the panel, in pixels.
+   */
+  export
+  function getMaxSize(widget: Widget): number {
+    return SplitLayout.getMaxSize(widget);
+  }
+
+  /**
+   * Set the split panel maximum size for the given widget.
+   *
+   * @param widget - The widget of interest.
+   *
+   * @param value - The maximum size of the widget along the panel.
+   */
+  export
+  function setMaxSize(widget: Widget, value: number): void {
+    SplitLayout.setMaxSize(widget, value);
+  }
+
+  /**
+   * Get the split panel resize policy for the given widget.
+   *
+   * @param widget - The widget of interest.
+   *
+   * @returns The resize policy for the widget.
+   */
+  export
+  function getResizePolicy(widget: Widget): ResizePolicy {
+    return SplitLayout.getResizePolicy(widget);
+  }
+
+  /**
+   * Set the split panel resize policy for the given widget.
+   *
+   * @param widget - The widget of interest.
+   *
+   * @param value - The resize policy for the widget.
+   */
+  export
+  function setResizePolicy(widget: Widget, value: ResizePolicy): void {
+    SplitLayout.setResizePolicy(widget, value);
+  }
+
+  /**
+   * Get whether the given widget snaps shut when dragged small.
+   *
+   * @param widget - The widget of interest.
+   *
+   * @returns Whether the widget is collapsible.
+   */
+  export
+  function getCollapsible(widget: Widget): boolean {
+    return SplitLayout.getCollapsible(widget);
+  }
+
+  /**
+   * Set whether the given widget snaps shut when dragged small.
+   *
+   * @param widget - The widget of interest.
+   *
+   * @param value - Whether the widget is collapsible.
+   */
+  export
+  function setCollapsible(widget: Widget, value: boolean): void {
+    SplitLayout.setCollapsible(widget, value);
+  }
+
+  /**
+   * Get the spacing of the handle which follows the given widget.
+   *
+   * @param widget - The widget of interest.
+   *
+   * @returns The handle spacing for the widget, or `-1` if the handle
+   *   uses the spacing of the panel.
+   */
+  export
+  function getHandleSpacing(widget: Widget): number {
+    return SplitLayout.getHandleSpacing(widget);
+  }
+
+  /**
+   * Set the spacing of the handle which follows the given widget.
+   *
+   * @param widget - The widget of interest.
+   *
+   * @param value - The handle spacing for the widget, in pixels. A
+   *   negative value uses the spacing of the panel.
+   */
+  export
+  function setHandleSpacing(widget: Widget, value: number): void {
+    SplitLayout.setHandleSpacing(widget, value);
+  }
+
+  /**
+   * Get the drag region of the given widget.
+   *
+   * @param widget - The widget of interest.
+   *
+   * @returns The node which is pressed to drag the widget, or `null`.
+   */
+  export
+  function getDragRegion(widget: Widget): HTMLElement {
+    return SplitPanelPrivate.dragRegionProperty.get(widget);
+  }
+
+  /**
+   * Set the drag region of the given widget.
+   *
+   * @param widget - The widget of interest.
+   *
+   * @param value - The node which is pressed to drag the widget, such
+   *   as a header within the widget, or `null`.
+   *
+   * #### Notes
+   * The drag region is only used by a [[reorderable]] split panel. The
+   * default is `null`, which means the widget cannot be dragged.
+   */
+  export
+  function setDragRegion(widget: Widget, value: HTMLElement): void {
+    SplitPanelPrivate.dragRegionProperty.set(widget, value);
+  }
+}
+
+
+/**
  * The namespace for the `SplitPanel` class private data.
  */
 namespace SplitPanelPrivate {
   /**
-   * An object which holds mouse press data.
+   * A flag indicating whether the browser supports pointer events.
+   */
+  export
+  const HasPointerEvents = 'PointerEvent' in window;
+
+  /**
+   * A signal emitted when the user starts dragging a split handle.
+   */
+  export
+  const dragStartedSignal = new Signal<SplitPanel, number>();
+
+  /**
+   * A signal emitted when the user moves a split handle.
+   */
+  export
+  const handleMovedSignal = new Signal<SplitPanel, SplitPanel.IHandleMovedArgs>();
+
+  /**
+   * A signal emitted when the user stops dragging a split handle.
+   */
+  export
+  const dragEndedSignal = new Signal<SplitPanel, number>();
+
+  /**
+   * A signal emitted when the user cancels dragging a split handle.
+   */
+  export
+  const dragCanceledSignal = new Signal<SplitPanel, number>();
+
+  /**
+   * A signal emitted when the sizes of the children change.
+   */
+  export
+  const sizesChangedSignal = new Signal<SplitPanel, SplitLayout.ISizesChangedArgs>();
+
+  /**
+   * A signal emitted when a size animation finishes.
+   */
+  export
+  const animationFinishedSignal = new Signal<SplitPanel, boolean>();
+
+  /**
+   * A signal emitted when the user moves a pane to a new index.
+   */
+  export
+  const paneMovedSignal = new Signal<SplitPanel, SplitPanel.IPaneMovedArgs>();
+
+  /**
+   * The property descriptor for a widget drag region.
+   */
+  export
+  const dragRegionProperty = new Property<Widget, HTMLElement>({
+    name: 'dragRegion',
+    value: null,
+  });
+
+  /**
+   * The distance, in pixels, a press must move to start a reorder.
+   */
+  export
+  const DRAG_THRESHOLD = 5;
+
+  /**
+   * The delay, in ms, before a finished resize is persisted.
+   */
+  export
+  const SAVE_DELAY = 300;
+
+  /**
+   * An object which holds layout persistence data.
+   */
+  export
+  interface IPersistData {
+    /**
+     * The store which holds the layout state.
+     */
+    store: ILayoutStore;
+
+    /**
+     * The key of the layout state in the store.
+     */
+    key: string;
+
+    /**
+     * The timer id of the pending save, or `0`.
+     */
+    timerId: number;
+  }
+
+  /**
+   * An object which holds pointer press data.
    */
   export
   interface IPressData {
@@ -400,10 +1788,76 @@ namespace SplitPanelPrivate {
      */
     delta: number;
 
+    /**
+     * The id of the pointer or touch which started the press.
+     *
+     * This is `-1` for a mouse press.
+     */
+    pointerId: number;
+
     /**
      * The disposable which will clear the override cursor.
      */
     override: IDisposable;
+
+    /**
+     * The proxy handle for a deferred resize, or `null`.
+     */
+    ghost: HTMLElement;
+
+    /**
+     * The position limits of the proxy handle, or `null`.
+     */
+    limits: SplitLayout.IHandleLimits;
+
+    /**
+     * The layout and its linked layouts, or `null`.
+     */
+    layouts: SplitLayout[];
+
+    /**
+     * The snapshots of the layout sizes at the start of the drag.
+     */
+    sizes: SplitLayout.ISizesSnapshot[];
+
+    /**
+     * The reorder data for a pane drag, or `null` for a handle drag.
+     */
+    reorder: IReorderData;
+  }
+
+  /**
+   * An object which holds the data for a pane reorder drag.
+   */
+  export
+  interface IReorderData {
+    /**
+     * The client X position of the press.
+     */
+    clientX: number;
+
+    /**
+     * The client Y position of the press.
+     */
+    clientY: number;
+
+    /**
+     * Whether the press has moved far enough to start the reorder.
+     */
+    active: boolean;
+
+    /**
+     * The slot the pane will be dropped at, or `-1`.
+     *
+     * A slot is the index of the child the pane is dropped before, or
+     * the child count to drop the pane after the last child.
+     */
+    slot: number;
+
+    /**
+     * The drop indicator node, or `null`.
+     */
+    indicator: HTMLElement;
   }
 
   /**
@@ -422,17 +1876,209 @@ namespace SplitPanelPrivate {
     handle: HTMLElement;
   }
 
+  /**
+   * Create the polite live region used for resize announcements.
+   */
+  export
+  function createAnnouncer(): HTMLElement {
+    let node = document.createElement('div');
+    node.className = ANNOUNCER_CLASS;
+    node.setAttribute('aria-live', 'polite');
+    node.setAttribute('aria-atomic', 'true');
+    return node;
+  }
+
+  /**
+   * Create a proxy handle which overlays the given split handle.
+   */
+  export
+  function createGhost(handle: HTMLElement): HTMLElement {
+    let ghost = document.createElement('div');
+    ghost.className = `${HANDLE_CLASS} ${GHOST_CLASS}`;
+    ghost.style.position = 'absolute';
+    ghost.style.top = `${handle.offsetTop}px`;
+    ghost.style.left = `${handle.offsetLeft}px`;
+    ghost.style.width = `${handle.offsetWidth}px`;
+    ghost.style.height = `${handle.offsetHeight}px`;
+    return ghost;
+  }
+
+  /**
+   * Create a drop indicator for a pane reorder.
+   */
+  export
+  function createIndicator(): HTMLElement {
+    let indicator = document.createElement('div');
+    indicator.className = DROP_INDICATOR_CLASS;
+    return indicator;
+  }
+
+  /**
+   * Place a drop indicator at the edge of the given slot.
+   */
+  export
+  function placeIndicator(indicator: HTMLElement, layout: SplitLayout, slot: number): void {
+    // Find the child at the slot, or the last visible child.
+    let n = layout.childCount();
+    let node: HTMLElement = null;
+    let leading = slot < n;
+    if (leading) {
+      node = layout.childAt(slot).node;
+    } else {
+      for (let i = n - 1; i >= 0 && !node; --i) {
+        if (!layout.childAt(i).isHidden) node = layout.childAt(i).node;
+      }
+    }
+
+    // Hide the indicator if there is no slot.
+    if (!node) {
+      indicator.style.display = 'none';
+      return;
+    }
+
+    // Move the indicator to the leading or trailing edge of the child.
+    indicator.style.display = '';
+    if (layout.orientation === Orientation.Horizontal) {
+      let start = leading !== layout.isMirrored;
+      let edge = node.offsetLeft + (start ? 0 : node.offsetWidth);
+      indicator.style.top = '';
+      indicator.style.left = `${edge}px`;
+    } else {
+      let edge = node.offsetTop + (leading ? 0 : node.offsetHeight);
+      indicator.style.top = `${edge}px`;
+      indicator.style.left = '';
+    }
+  }
+
+  /**
+   * Find the drop slot for the given offset position, or `-1`.
+   */
+  export
+  function findDropSlot(layout: SplitLayout, pos: number): number {
+    let n = layout.childCount();
+    let found = false;
+    let horz = layout.orientation === Orientation.Horizontal;
+    let mirrored = layout.isMirrored;
+    for (let i = 0; i < n; ++i) {
+      let child = layout.childAt(i);
+      if (child.isHidden) {
+        continue;
+      }
+      found = true;
+      let node = child.node;
+      let mid: number;
+      if (horz) {
+        mid = node.offsetLeft + node.offsetWidth / 2;
+      } else {
+        mid = node.offsetTop + node.offsetHeight / 2;
+      }
+      if (mirrored ? pos > mid : pos < mid) {
+        return i;
+      }
+    }
+    return found ? n : -1;
+  }
+
+  /**
+   * Find the child whose drag region contains the given target.
+   *
+   * Returns the index of the child, or `-1` if there is none.
+   */
+  export
+  function findDragRegion(layout: SplitLayout, target: HTMLElement): number {
+    for (let i = 0, n = layout.childCount(); i < n; ++i) {
+      let region = dragRegionProperty.get(layout.childAt(i));
+      if (region && region.contains(target)) {
+        return i;
+      }
+    }
+    return -1;
+  }
+
+  /**
+   * Sync the hit area of a split handle with the given size.
+   *
+   * A size of `0` removes the hit area from the handle.
+   */
+  export
+  function syncHitArea(handle: HTMLElement, size: number, horz: boolean): void {
+    let hitArea = findHitArea(handle);
+    if (size === 0) {
+      if (hitArea) handle.removeChild(hitArea);
+      handle.classList.remove(HAS_HIT_AREA_CLASS);
+      return;
+    }
+    if (!hitArea) {
+      hitArea = document.createElement('div');
+      hitArea.className = HIT_AREA_CLASS;
+      handle.appendChild(hitArea);
+      handle.classList.add(HAS_HIT_AREA_CLASS);
+    }
+    hitArea.style.width = horz ? `${size}px` : '';
+    hitArea.style.height = horz ? '' : `${size}px`;
+  }
+
+  /**
+   * Find the hit area element of a split handle, if any.
+   */
+  function findHitArea(handle: HTMLElement): HTMLElement {
+    let children = handle.children;
+    for (let i = 0, n = children.length; i < n; ++i) {
+      let child = children[i] as HTMLElement;
+      if (child.classList.contains(HIT_AREA_CLASS)) {
+        return child;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Find the changed touch with the given identifier, if any.
+   */
+  export
+  function findTouch(event: TouchEvent, id: number): Touch {
+    let touches = event.changedTouches;
+    for (let i = 0, n = touches.length; i < n; ++i) {
+      if (touches[i].identifier === id) {
+        return touches[i];
+      }
+    }
+    return null;
+  }
+
   /**
    * Find the split handle which contains the given target element.
+   *
+   * The hit area of a handle is a descendant of the handle, so a press
+   * on the part of the hit area which overlaps a child is found here.
+   *
+   * A target outside the grips of a handle with grips is not found.
    */
   export
   function findHandle(layout: SplitLayout, target: HTMLElement): IHandlePair {
     for (let i = 0, n = layout.childCount(); i < n; ++i) {
       let handle = layout.handleAt(i);
       if (handle.contains(target)) {
+        if (!isGrip(handle, target)) break;
         return { index: i, handle };
       }
     }
     return { index: -1, handle: null };
   }
+
+  /**
+   * Test whether a target within a split handle drags the handle.
+   */
+  function isGrip(handle: HTMLElement, target: HTMLElement): boolean {
+    if (!handle.querySelector(`.${HANDLE_GRIP_CLASS}`)) {
+      return true;
+    }
+    for (let node = target; node !== handle; node = node.parentElement) {
+      let list = node.classList;
+      if (list.contains(HANDLE_GRIP_CLASS) || list.contains(HIT_AREA_CLASS)) {
+        return true;
+      }
+    }
+    return target === handle;
+  }
 }
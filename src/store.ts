@@ -0,0 +1,137 @@
+/*-----------------------------------------------------------------------------
+| Copyright (c) 2014-2015, PhosphorJS Contributors
+|
+| Distributed under the terms of the BSD 3-Clause License.
+|
+| The full license is in the file LICENSE, distributed with this software.
+|----------------------------------------------------------------------------*/
+'use strict';
+
+import {
+  SplitLayout
+} from './layout';
+
+
+/**
+ * An object which persists the saved state of split layouts.
+ */
+export
+interface ILayoutStore {
+  /**
+   * Load the layout state stored under the given key.
+   *
+   * @param key - The key of the state of interest.
+   *
+   * @returns The stored layout state, or `null` if there is none.
+   */
+  load(key: string): SplitLayout.IState;
+
+  /**
+   * Store the layout state under the given key.
+   *
+   * @param key - The key for the state.
+   *
+   * @param state - The layout state to store.
+   */
+  save(key: string, state: SplitLayout.IState): void;
+}
+
+
+/**
+ * A layout store which holds the layout states in memory.
+ */
+export
+class MemoryLayoutStore implements ILayoutStore {
+  /**
+   * Load the layout state stored under the given key.
+   *
+   * @param key - The key of the state of interest.
+   *
+   * @returns The stored layout state, or `null` if there is none.
+   */
+  load(key: string): SplitLayout.IState {
+    let value = this._values[key];
+    return value ? JSON.parse(value) : null;
+  }
+
+  /**
+   * Store the layout state under the given key.
+   *
+   * @param key - The key for the state.
+   *
+   * @param state - The layout state to store.
+   *
+   * #### Notes
+   * The state is copied, so later changes to it are not stored.
+   */
+  save(key: string, state: SplitLayout.IState): void {
+    this._values[key] = JSON.stringify(state);
+  }
+
+  private _values: { [key: string]: string } = Object.create(null);
+}
+
+
+/**
+ * A layout store which holds the layout states in `localStorage`.
+ */
+export
+class LocalStorageLayoutStore implements ILayoutStore {
+  /**
+   * Construct a new local storage layout store.
+   *
+   * @param prefix - The prefix prepended to the keys of the store.
+   *   The default is `'p-SplitLayout:'`.
+   */
+  constructor(prefix = 'p-SplitLayout:') {
+    this._prefix = prefix;
+  }
+
+  /**
+   * Get the prefix prepended to the keys of the store.
+   *
+   * #### Notes
+   * This is a read-only property.
+   */
+  get prefix(): string {
+    return this._prefix;
+  }
+
+  /**
+   * Load the layout state stored under the given key.
+   *
+   * @param key - The key of the state of interest.
+   *
+   * @returns The stored layout state, or `null` if there is none or
+   *   if it cannot be read.
+   */
+  load(key: string): SplitLayout.IState {
+    try {
+      let value = window.localStorage.getItem(this._prefix + key);
+      return value ? JSON.parse(value) : null;
+    } catch (err) {
+      // Storage may be disabled or hold malformed data.
+      return null;
+    }
+  }
+
+  /**
+   * Store the layout state under the given key.
+   *
+   * @param key - The key for the state.
+   *
+   * @param state - The layout state to store.
+   *
+   * #### Notes
+   * The state is silently dropped if the storage is full or disabled.
+   */
+  save(key: string, state: SplitLayout.IState): void {
+    try {
+      window.localStorage.setItem(this._prefix + key, JSON.stringify(state));
+    } catch (err) {
+      // Persistence is best effort.
+    }
+  }
+
+  private _prefix: string;
+}
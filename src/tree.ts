@@ -0,0 +1,168 @@
+/*-----------------------------------------------------------------------------
+| Copyright (c) 2014-2015, PhosphorJS Contributors
+|
+| Distributed under the terms of the BSD 3-Clause License.
+|
+| The full license is in the file LICENSE, distributed with this software.
+|----------------------------------------------------------------------------*/
+'use strict';
+
+import {
+  Widget
+} from 'phosphor-widget';
+
+import {
+  Orientation
+} from './layout';
+
+import {
+  SplitPanel
+} from './panel';
+
+
+/**
+ * The namespace for the split tree model.
+ *
+ * #### Notes
+ * A split tree is a JSON-compatible description of nested split panels.
+ * A split node describes a split panel, and a leaf node describes one
+ * of the content widgets, which is identified by its DOM id.
+ */
+export
+namespace SplitTree {
+  /**
+   * A node which describes a split panel.
+   */
+  export
+  interface ISplitNode {
+    /**
+     * The type of the node.
+     */
+    type: 'split';
+
+    /**
+     * The orientation of the split panel.
+     */
+    orientation: 'horizontal' | 'vertical';
+
+    /**
+     * The normalized sizes of the children, if known.
+     */
+    sizes?: number[];
+
+    /**
+     * The inter-element spacing of the split panel, if known.
+     */
+    spacing?: number;
+
+    /**
+     * The child nodes of the split panel.
+     */
+    children: INode[];
+  }
+
+  /**
+   * A node which describes a content widget.
+   */
+  export
+  interface ILeafNode {
+    /**
+     * The type of the node.
+     */
+    type: 'leaf';
+
+    /**
+     * The DOM id of the content widget.
+     */
+    id: string;
+  }
+
+  /**
+   * A node in a split tree.
+   */
+  export
+  type INode = ISplitNode | ILeafNode;
+
+  /**
+   * A factory function which creates the content widget for an id.
+   *
+   * The factory may return `null` to omit the widget from the tree.
+   */
+  export
+  type WidgetFactory = (id: string) => Widget;
+
+  /**
+   * Create the widget hierarchy for a split tree.
+   *
+   * @param node - The root node of the split tree.
+   *
+   * @param factory - The factory which creates the content widgets.
+   *
+   * @returns The widget for the root node, or `null` if the root node
+   *   is a leaf which the factory omitted.
+   *
+   * #### Notes
+   * The sizes of omitted content widgets are dropped, so the remaining
+   * children keep their relative sizes.
+   */
+  export
+  function createWidget(node: INode, factory: WidgetFactory): Widget {
+    if (node.type === 'leaf') {
+      return factory((node as ILeafNode).id) || null;
+    }
+    let split = node as ISplitNode;
+    let panel = new SplitPanel();
+    if (split.orientation === 'vertical') {
+      panel.orientation = Orientation.Vertical;
+    } else {
+      panel.orientation = Orientation.Horizontal;
+    }
+    if (typeof split.spacing === 'number') {
+      panel.spacing = split.spacing;
+    }
+    let sizes: number[] = [];
+    for (let i = 0, n = split.children.length; i < n; ++i) {
+      let child = createWidget(split.children[i], factory);
+      if (!child) {
+        continue;
+      }
+      panel.addChild(child);
+      if (split.sizes) sizes.push(split.sizes[i] || 0);
+    }
+    if (split.sizes) {
+      panel.setSizes(sizes);
+    }
+    return panel;
+  }
+
+  /**
+   * Create the split tree for a widget hierarchy.
+   *
+   * @param widget - The root widget of the hierarchy.
+   *
+   * @returns The root node of the split tree for the hierarchy.
+   *
+   * #### Notes
+   * Split panels become split nodes, and all other widgets become leaf
+   * nodes which are identified by the widget's DOM id.
+   */
+  export
+  function fromWidget(widget: Widget): INode {
+    if (!(widget instanceof SplitPanel)) {
+      return { type: 'leaf', id: widget.id } as ILeafNode;
+    }
+    let panel = widget as SplitPanel;
+    let children: INode[] = [];
+    for (let i = 0, n = panel.childCount(); i < n; ++i) {
+      children.push(fromWidget(panel.childAt(i)));
+    }
+    let horz = panel.orientation === Orientation.Horizontal;
+    return {
+      type: 'split',
+      orientation: horz ? 'horizontal' : 'vertical',
+      sizes: panel.sizes(),
+      spacing: panel.spacing,
+      children,
+    } as ISplitNode;
+  }
+}
@@ -9,6 +9,20 @@
 
 import expect = require('expect.js');
 
+import {
+  hasPendingMessages, sendMessage, sendPendingMessage
+} from 'phosphor-messaging';
+
+import {
+  ResizeMessage, Widget
+} from 'phosphor-widget';
+
+import {
+  Direction, IHandleContext, LocalStorageLayoutStore, MemoryLayoutStore,
+  Orientation, ResizeMode, ResizePolicy, SizesChangeReason, SplitLayout,
+  SplitPanel, SplitTree
+} from '../../lib/index';
+
 // import {
 //   Message, clearMessageData, sendMessage
 // } from 'phosphor-messaging';
@@ -53,38 +67,104 @@ import expect = require('expect.js');
 // }
 
 
-// function triggerMouseEvent(node: HTMLElement, eventType: string, options: any = {}) {
-//   options.bubbles = true;
-//   let clickEvent = document.createEvent('MouseEvent');
-//   clickEvent.initMouseEvent(
-//     eventType,
-//     options.bubbles,
-//     options.cancelable,
-//     options.view,
-//     options.detail,
-//     options.screenX,
-//     options.screenY,
-//     options.clientX,
-//     options.clientY,
-//     options.ctrlKey,
-//     options.altKey,
-//     options.shiftKey,
-//     options.metaKey,
-//     options.button,
-//     options.relatedTarget
-//   );
-//   node.dispatchEvent(clickEvent);
-// }
-
-
-// function triggerKeyEvent(node: HTMLElement, eventType: string, options: any = {}) {
-//   let event = document.createEvent('Event');
-//   event.initEvent(eventType, true, true);
-//   for (let prop in options) {
-//     (<any>event)[prop] = options[prop];
-//   }
-//   node.dispatchEvent(event);
-// }
+function triggerMouseEvent(node: HTMLElement, eventType: string, options: any = {}) {
+  options.bubbles = true;
+  let clickEvent = document.createEvent('MouseEvent');
+  clickEvent.initMouseEvent(
+    eventType,
+    options.bubbles,
+    options.cancelable,
+    options.view,
+    options.detail,
+    options.screenX,
+    options.screenY,
+    options.clientX,
+    options.clientY,
+    options.ctrlKey,
+    options.altKey,
+    options.shiftKey,
+    options.metaKey,
+    options.button,
+    options.relatedTarget
+  );
+  node.dispatchEvent(clickEvent);
+}
+
+
+function triggerKeyEvent(node: HTMLElement, eventType: string, options: any = {}) {
+  let event = document.createEvent('Event');
+  event.initEvent(eventType, true, true);
+  for (let prop in options) {
+    (<any>event)[prop] = options[prop];
+  }
+  node.dispatchEvent(event);
+}
+
+
+function triggerEvent(node: Node, eventType: string, options: any = {}) {
+  let event = document.createEvent('Event');
+  event.initEvent(eventType, true, true);
+  for (let prop in options) {
+    (<any>event)[prop] = options[prop];
+  }
+  node.dispatchEvent(event);
+}
+
+
+// A split panel listens for either pointer events or mouse and touch
+// events, depending on the browser, so a test listens for the events
+// it triggers. A listener which is already added is not added again.
+function listenFor(panel: SplitPanel, types: string[]): void {
+  types.forEach(type => { panel.node.addEventListener(type, panel); });
+}
+
+
+class DisposingPanel extends SplitPanel {
+
+  static disposed: Array<HTMLElement | Widget> = [];
+
+  static disposeHandle(handle: HTMLElement | Widget): void {
+    DisposingPanel.disposed.push(handle);
+  }
+}
+
+
+class WidgetHandlePanel extends SplitPanel {
+
+  static createHandle(): HTMLElement | Widget {
+    return new Widget();
+  }
+}
+
+
+class ContextPanel extends SplitPanel {
+
+  static updateHandle(handle: HTMLElement | Widget, context: IHandleContext): void {
+    (handle as any).context = context;
+  }
+}
+
+
+function createPanel(count: number): SplitPanel {
+  let panel = new SplitPanel();
+  for (let i = 0; i < count; ++i) {
+    panel.addChild(new Widget());
+  }
+  return panel;
+}
+
+
+function createSizedPanel(sizes: number[]): SplitPanel {
+  let panel = createPanel(sizes.length);
+  let width = sizes.reduce((a, b) => a + b, 0);
+  panel.spacing = 0;
+  panel.node.style.width = `${width}px`;
+  panel.node.style.height = '100px';
+  panel.attach(document.body);
+  panel.setPixelSizes(sizes);
+  sendMessage(panel, new ResizeMessage(width, 100));
+  return panel;
+}
 
 
 describe('phosphor-splitpanel', () => {
@@ -97,6 +177,1300 @@ describe('phosphor-splitpanel', () => {
 
   });
 
+  describe('SplitLayout', () => {
+
+    describe('#restoreState()', () => {
+
+      it('should restore a state saved by a separately built panel', () => {
+        let source = createPanel(3);
+        source.setPixelSizes([100, 200, 300]);
+        let state = JSON.parse(JSON.stringify(source.saveState()));
+        let target = createPanel(3);
+        expect(target.restoreState(state)).to.be(true);
+        expect(target.pixelSizes()).to.eql([100, 200, 300]);
+      });
+
+      it('should not assign ids to the children', () => {
+        let panel = createPanel(2);
+        panel.attach(document.body);
+        sendMessage(panel, Widget.MsgUpdateRequest);
+        let state = panel.saveState();
+        expect(panel.childAt(0).id).to.be('');
+        expect(state.children[0].id).to.be('');
+        panel.dispose();
+      });
+
+      it('should match the children by id', () => {
+        let source = createPanel(2);
+        source.childAt(0).id = 'first';
+        source.childAt(1).id = 'second';
+        source.setPixelSizes([100, 200]);
+        let state = source.saveState();
+        let target = createPanel(2);
+        target.childAt(0).id = 'second';
+        target.childAt(1).id = 'first';
+        target.restoreState(state);
+        expect(target.pixelSizes()).to.eql([200, 100]);
+      });
+
+      it('should fall back to the index for ids not in the layout', () => {
+        let source = createPanel(2);
+        source.childAt(0).id = 'stale';
+        source.setPixelSizes([100, 200]);
+        let state = source.saveState();
+        let target = createPanel(2);
+        target.restoreState(state);
+        expect(target.pixelSizes()).to.eql([100, 200]);
+      });
+
+      it('should not match an id of another child by index', () => {
+        let source = createPanel(2);
+        source.childAt(0).id = 'first';
+        source.setPixelSizes([100, 200]);
+        let state = source.saveState();
+        let target = createPanel(2);
+        target.childAt(1).id = 'first';
+        target.setPixelSizes([50, 60]);
+        target.restoreState(state);
+        expect(target.pixelSizes()).to.eql([50, 100]);
+      });
+
+    });
+
+    describe('#beforeResize', () => {
+
+      it('should keep the laid out sizes when a batch of changes is canceled', () => {
+        let panel = createPanel(2);
+        panel.spacing = 0;
+        panel.attach(document.body);
+        panel.setPixelSizes([100, 200]);
+        sendMessage(panel, new ResizeMessage(300, 100));
+        panel.beforeResize = () => null;
+        panel.setSizes([1, 1]);
+        panel.setSizes([1, 2]);
+        sendMessage(panel, new ResizeMessage(300, 100));
+        expect(panel.pixelSizes()).to.eql([100, 200]);
+        panel.dispose();
+      });
+
+      it('should keep the sizes changed by the hook', () => {
+        let panel = createSizedPanel([100, 200]);
+        panel.beforeResize = (layout, proposal) => [proposal.sizes[0], 180];
+        panel.setSizes([1, 1]);
+        sendMessage(panel, new ResizeMessage(300, 100));
+        expect(panel.pixelSizes()).to.eql([120, 180]);
+        panel.dispose();
+      });
+
+      it('should keep the sizes changed by the hook for a handle move', () => {
+        let panel = createSizedPanel([100, 100, 100]);
+        let layout = panel.layout as SplitLayout;
+        layout.beforeResize = (layout, proposal) => {
+          return [proposal.sizes[0], proposal.sizes[1], 80];
+        };
+        layout.moveHandle(0, 80);
+        sendMessage(panel, new ResizeMessage(300, 100));
+        expect(layout.pixelSizes()).to.eql([80, 140, 80]);
+        panel.dispose();
+      });
+
+    });
+
+    describe('#handleLimits()', () => {
+
+      it('should extend to where a collapsible widget snaps shut with `snap`', () => {
+        let panel = createSizedPanel([100, 200]);
+        let layout = panel.layout as SplitLayout;
+        SplitLayout.setMinSize(panel.childAt(1), 100);
+        SplitLayout.setCollapsible(panel.childAt(1), true);
+        sendMessage(panel, Widget.MsgFitRequest);
+        sendMessage(panel, new ResizeMessage(300, 100));
+        expect(layout.handleLimits(0).max).to.be(200);
+        expect(layout.handleLimits(0, true).max).to.be(300);
+        panel.dispose();
+      });
+
+    });
+
+    describe('#moveHandle()', () => {
+
+      it('should keep a collapsed widget shut for a short movement', () => {
+        let panel = createPanel(2);
+        let layout = panel.layout as SplitLayout;
+        SplitLayout.setMinSize(panel.childAt(1), 200);
+        layout.collapse(1);
+        layout.moveHandle(0, -10);
+        expect(layout.isCollapsed(1)).to.be(true);
+      });
+
+      it('should open a collapsed widget for any movement with `reopen`', () => {
+        let panel = createPanel(2);
+        let layout = panel.layout as SplitLayout;
+        SplitLayout.setMinSize(panel.childAt(1), 200);
+        layout.collapse(1);
+        layout.moveHandle(0, -10, { reopen: true });
+        expect(layout.isCollapsed(1)).to.be(false);
+      });
+
+      it('should move the handle in every linked layout', () => {
+        let a = createSizedPanel([100, 200]);
+        let b = createSizedPanel([100, 200]);
+        a.link(b);
+        (a.layout as SplitLayout).moveHandle(0, 150);
+        sendMessage(a, new ResizeMessage(300, 100));
+        sendMessage(b, new ResizeMessage(300, 100));
+        expect(a.pixelSizes()).to.eql([150, 150]);
+        expect(b.pixelSizes()).to.eql([150, 150]);
+        a.dispose();
+        b.dispose();
+      });
+
+      it('should undo the movement in every linked layout if one hook cancels', () => {
+        let a = createSizedPanel([100, 200]);
+        let b = createSizedPanel([100, 200]);
+        a.link(b);
+        (b.layout as SplitLayout).beforeResize = () => null;
+        (a.layout as SplitLayout).moveHandle(0, 150);
+        sendMessage(a, new ResizeMessage(300, 100));
+        sendMessage(b, new ResizeMessage(300, 100));
+        expect(a.pixelSizes()).to.eql([100, 200]);
+        expect(b.pixelSizes()).to.eql([100, 200]);
+        a.dispose();
+        b.dispose();
+      });
+
+      it('should let collapsible widgets of linked layouts snap shut', () => {
+        let a = createSizedPanel([100, 200]);
+        let b = createSizedPanel([100, 200]);
+        for (let panel of [a, b]) {
+          SplitLayout.setMinSize(panel.childAt(1), 100);
+          SplitLayout.setCollapsible(panel.childAt(1), true);
+          sendMessage(panel, Widget.MsgFitRequest);
+          sendMessage(panel, new ResizeMessage(300, 100));
+        }
+        a.link(b);
+        (a.layout as SplitLayout).moveHandle(0, 260);
+        expect(a.isCollapsed(1)).to.be(true);
+        expect(b.isCollapsed(1)).to.be(true);
+        a.dispose();
+        b.dispose();
+      });
+
+    });
+
+    describe('#sizesChanged', () => {
+
+      function recordReasons(panel: SplitPanel): SizesChangeReason[] {
+        let reasons: SizesChangeReason[] = [];
+        panel.sizesChanged.connect((sender, args) => { reasons.push(args.reason); });
+        return reasons;
+      }
+
+      it('should report a handle movement as a user drag', () => {
+        let panel = createSizedPanel([100, 200]);
+        let reasons = recordReasons(panel);
+        (panel.layout as SplitLayout).moveHandle(0, 150);
+        sendMessage(panel, new ResizeMessage(300, 100));
+        expect(reasons).to.eql([SizesChangeReason.UserDrag]);
+        panel.dispose();
+      });
+
+      it('should report a size change as programmatic', () => {
+        let panel = createSizedPanel([100, 200]);
+        let reasons = recordReasons(panel);
+        panel.setPixelSizes([200, 100]);
+        sendMessage(panel, new ResizeMessage(300, 100));
+        expect(reasons).to.eql([SizesChangeReason.Programmatic]);
+        panel.dispose();
+      });
+
+      it('should report a resize of the panel as a container resize', () => {
+        let panel = createSizedPanel([100, 200]);
+        let reasons = recordReasons(panel);
+        sendMessage(panel, new ResizeMessage(600, 100));
+        expect(reasons).to.eql([SizesChangeReason.ContainerResize]);
+        panel.dispose();
+      });
+
+      it('should report an added child as a child change', () => {
+        let panel = createSizedPanel([100, 200]);
+        let reasons = recordReasons(panel);
+        panel.addChild(new Widget());
+        sendMessage(panel, new ResizeMessage(300, 100));
+        expect(reasons).to.eql([SizesChangeReason.ChildChange]);
+        panel.dispose();
+      });
+
+      it('should consume the reason when the change is reported', () => {
+        let panel = createSizedPanel([100, 200]);
+        let reasons = recordReasons(panel);
+        (panel.layout as SplitLayout).moveHandle(0, 150);
+        sendMessage(panel, new ResizeMessage(300, 100));
+        sendMessage(panel, new ResizeMessage(600, 100));
+        expect(reasons).to.eql([
+          SizesChangeReason.UserDrag, SizesChangeReason.ContainerResize
+        ]);
+        panel.dispose();
+      });
+
+      it('should not be emitted if the sizes are unchanged', () => {
+        let panel = createSizedPanel([100, 200]);
+        let reasons = recordReasons(panel);
+        sendMessage(panel, new ResizeMessage(300, 100));
+        panel.setPixelSizes([100, 200]);
+        sendMessage(panel, new ResizeMessage(300, 100));
+        expect(reasons).to.eql([]);
+        panel.dispose();
+      });
+
+      it('should emit the normalized sizes', () => {
+        let panel = createSizedPanel([100, 200]);
+        let sizes: number[] = null;
+        panel.sizesChanged.connect((sender, args) => { sizes = args.sizes; });
+        panel.setPixelSizes([150, 150]);
+        sendMessage(panel, new ResizeMessage(300, 100));
+        expect(sizes).to.eql([0.5, 0.5]);
+        panel.dispose();
+      });
+
+    });
+
+    describe('#animationFinished', () => {
+
+      it('should be emitted with `true` when an animation completes', (done) => {
+        let panel = createSizedPanel([100, 200]);
+        panel.animationFinished.connect((sender, completed) => {
+          expect(completed).to.be(true);
+          expect(panel.pixelSizes()).to.eql([150, 150]);
+          panel.dispose();
+          done();
+        });
+        panel.setSizes([1, 1], { animate: true, duration: 0 });
+      });
+
+      it('should apply the easing to the animation', (done) => {
+        let panel = createSizedPanel([100, 200]);
+        panel.animationFinished.connect(() => {
+          expect(panel.pixelSizes()).to.eql([125, 175]);
+          panel.dispose();
+          done();
+        });
+        panel.setSizes([1, 1], { animate: true, duration: 0, easing: () => 0.5 });
+      });
+
+      it('should be emitted with `false` when a drag interrupts the animation', () => {
+        let panel = createSizedPanel([100, 200]);
+        let results: boolean[] = [];
+        panel.animationFinished.connect((sender, completed) => { results.push(completed); });
+        panel.setSizes([1, 1], { animate: true, duration: 1000 });
+        (panel.layout as SplitLayout).moveHandle(0, 150);
+        expect(results).to.eql([false]);
+        panel.dispose();
+      });
+
+      it('should be emitted with `false` when the hook cancels the animation', () => {
+        let panel = createSizedPanel([100, 200]);
+        let results: boolean[] = [];
+        panel.animationFinished.connect((sender, completed) => { results.push(completed); });
+        panel.beforeResize = () => null;
+        panel.setSizes([1, 1], { animate: true });
+        expect(results).to.eql([false]);
+        panel.dispose();
+      });
+
+      it('should not be emitted when the panel is not visible', () => {
+        let panel = createPanel(2);
+        let results: boolean[] = [];
+        panel.animationFinished.connect((sender, completed) => { results.push(completed); });
+        panel.setSizes([1, 3], { animate: true });
+        expect(results).to.eql([]);
+        expect(panel.sizes()).to.eql([0.25, 0.75]);
+      });
+
+    });
+
+    describe('#direction', () => {
+
+      function createMirroredPanel(): SplitPanel {
+        let panel = createPanel(2);
+        panel.spacing = 0;
+        panel.direction = Direction.RightToLeft;
+        panel.node.style.width = '300px';
+        panel.node.style.height = '100px';
+        panel.attach(document.body);
+        sendMessage(panel, Widget.MsgFitRequest);
+        panel.setPixelSizes([100, 200]);
+        sendMessage(panel, new ResizeMessage(300, 100));
+        return panel;
+      }
+
+      it('should mirror a horizontal layout from right to left', () => {
+        let panel = createMirroredPanel();
+        let layout = panel.layout as SplitLayout;
+        expect(layout.isMirrored).to.be(true);
+        expect(panel.childAt(0).node.style.left).to.be('200px');
+        expect(panel.childAt(1).node.style.left).to.be('0px');
+        expect(panel.handleAt(0).style.left).to.be('200px');
+        panel.dispose();
+      });
+
+      it('should not mirror a vertical layout', () => {
+        let panel = createMirroredPanel();
+        panel.orientation = Orientation.Vertical;
+        sendMessage(panel, Widget.MsgFitRequest);
+        expect((panel.layout as SplitLayout).isMirrored).to.be(false);
+        panel.dispose();
+      });
+
+      it('should grow the first widget when its handle moves left', () => {
+        let panel = createMirroredPanel();
+        (panel.layout as SplitLayout).moveHandle(0, 150);
+        sendMessage(panel, new ResizeMessage(300, 100));
+        expect(panel.pixelSizes()).to.eql([150, 150]);
+        panel.dispose();
+      });
+
+      it('should move a handle toward the start of the layout for `Home`', () => {
+        let panel = createMirroredPanel();
+        triggerKeyEvent(panel.handleAt(0), 'keydown', { keyCode: 36 });
+        sendMessage(panel, new ResizeMessage(300, 100));
+        expect(panel.pixelSizes()).to.eql([0, 300]);
+        panel.dispose();
+      });
+
+      it('should move a handle toward the end of the layout for `End`', () => {
+        let panel = createMirroredPanel();
+        triggerKeyEvent(panel.handleAt(0), 'keydown', { keyCode: 35 });
+        sendMessage(panel, new ResizeMessage(300, 100));
+        expect(panel.pixelSizes()).to.eql([300, 0]);
+        panel.dispose();
+      });
+
+    });
+
+    describe('#revertSizes()', () => {
+
+      it('should restore the sizes and the maximized widget', () => {
+        let panel = createPanel(3);
+        let layout = panel.layout as SplitLayout;
+        layout.maximize(1);
+        let snapshot = layout.snapshotSizes();
+        let sizes = layout.pixelSizes();
+        layout.setPixelSizes([100, 100, 100]);
+        layout.revertSizes(snapshot);
+        expect(layout.pixelSizes()).to.eql(sizes);
+        expect(layout.maximizedIndex).to.be(1);
+      });
+
+      it('should be a no-op if the number of children changed', () => {
+        let panel = createPanel(2);
+        let layout = panel.layout as SplitLayout;
+        layout.setPixelSizes([100, 200]);
+        let snapshot = layout.snapshotSizes();
+        panel.addChild(new Widget());
+        layout.setPixelSizes([50, 50, 50]);
+        layout.revertSizes(snapshot);
+        expect(layout.pixelSizes()).to.eql([50, 50, 50]);
+      });
+
+    });
+
+    describe('#dispose()', () => {
+
+      it('should dispose of the split handles', () => {
+        let panel = new DisposingPanel();
+        panel.addChild(new Widget());
+        panel.addChild(new Widget());
+        let handles = [panel.handleAt(0), panel.handleAt(1)];
+        DisposingPanel.disposed = [];
+        panel.dispose();
+        expect(DisposingPanel.disposed).to.eql(handles);
+      });
+
+      it('should dispose of the handle widgets', () => {
+        let panel = new WidgetHandlePanel();
+        panel.addChild(new Widget());
+        panel.addChild(new Widget());
+        let handles = [panel.handleWidgetAt(0), panel.handleWidgetAt(1)];
+        panel.dispose();
+        expect(handles[0].isDisposed).to.be(true);
+        expect(handles[1].isDisposed).to.be(true);
+      });
+
+    });
+
+    describe('#pixelSizes()', () => {
+
+      it('should resolve pending relative sizes against the layout space', () => {
+        let panel = createSizedPanel([100, 200]);
+        let layout = panel.layout as SplitLayout;
+        layout.setSizes([1, 1]);
+        expect(layout.pixelSizes()).to.eql([150, 150]);
+        panel.dispose();
+      });
+
+      it('should be zero before the layout has been sized', () => {
+        let panel = createPanel(2);
+        let layout = panel.layout as SplitLayout;
+        layout.setSizes([1, 1]);
+        expect(layout.pixelSizes()).to.eql([0, 0]);
+      });
+
+    });
+
+    describe('#setPaneSize()', () => {
+
+      it('should resize a widget before the first layout', () => {
+        let panel = createPanel(2);
+        panel.spacing = 0;
+        panel.attach(document.body);
+        let layout = panel.layout as SplitLayout;
+        layout.setPaneSize(0, 80);
+        sendMessage(panel, new ResizeMessage(300, 100));
+        expect(layout.pixelSizes()).to.eql([80, 220]);
+        panel.dispose();
+      });
+
+      it('should resize a widget after a layout', () => {
+        let panel = createSizedPanel([100, 200]);
+        let layout = panel.layout as SplitLayout;
+        layout.setPaneSize(1, 120);
+        sendMessage(panel, new ResizeMessage(300, 100));
+        expect(layout.pixelSizes()).to.eql([180, 120]);
+        panel.dispose();
+      });
+
+    });
+
+    describe('#updateHandle()', () => {
+
+      function contextAt(panel: SplitPanel, index: number): IHandleContext {
+        return (panel.handleAt(index) as any).context;
+      }
+
+      it('should update the handle contexts when a child is added', () => {
+        let panel = new ContextPanel();
+        let widgets = [new Widget(), new Widget(), new Widget()];
+        panel.addChild(widgets[0]);
+        panel.addChild(widgets[2]);
+        expect(contextAt(panel, 0).after).to.be(widgets[2]);
+        panel.insertChild(1, widgets[1]);
+        expect(contextAt(panel, 0).after).to.be(widgets[1]);
+        expect(contextAt(panel, 2).index).to.be(2);
+      });
+
+      it('should update the handle contexts when a child is moved', () => {
+        let panel = new ContextPanel();
+        let widgets = [new Widget(), new Widget(), new Widget()];
+        widgets.forEach(widget => { panel.addChild(widget); });
+        panel.insertChild(0, widgets[2]);
+        expect(contextAt(panel, 0).before).to.be(widgets[2]);
+        expect(contextAt(panel, 0).after).to.be(widgets[0]);
+        expect(contextAt(panel, 2).index).to.be(2);
+        expect(contextAt(panel, 2).after).to.be(null);
+      });
+
+      it('should update the handle contexts when a child is removed', () => {
+        let panel = new ContextPanel();
+        let widgets = [new Widget(), new Widget(), new Widget()];
+        widgets.forEach(widget => { panel.addChild(widget); });
+        widgets[1].parent = null;
+        expect(contextAt(panel, 0).after).to.be(widgets[2]);
+        expect(contextAt(panel, 1).index).to.be(1);
+      });
+
+    });
+
+    describe('#maximizedIndex', () => {
+
+      it('should be the index of the maximized widget', () => {
+        let panel = createPanel(3);
+        let layout = panel.layout as SplitLayout;
+        layout.maximize(1);
+        expect(layout.maximizedIndex).to.be(1);
+      });
+
+      it('should be reset by a later size change', () => {
+        let panel = createPanel(3);
+        let layout = panel.layout as SplitLayout;
+        layout.maximize(1);
+        layout.setPixelSizes([100, 100, 100]);
+        expect(layout.maximizedIndex).to.be(-1);
+        layout.maximize(1);
+        layout.collapse(0);
+        expect(layout.maximizedIndex).to.be(-1);
+      });
+
+      it('should be reset by a handle movement', () => {
+        let panel = createPanel(3);
+        let layout = panel.layout as SplitLayout;
+        layout.maximize(1);
+        layout.moveHandle(1, 10);
+        expect(layout.maximizedIndex).to.be(-1);
+      });
+
+    });
+
+    describe('.getMinSize()', () => {
+
+      it('should default to `0`', () => {
+        expect(SplitLayout.getMinSize(new Widget())).to.be(0);
+      });
+
+    });
+
+    describe('.setMinSize()', () => {
+
+      it('should clamp a negative size to `0`', () => {
+        let widget = new Widget();
+        SplitLayout.setMinSize(widget, -10);
+        expect(SplitLayout.getMinSize(widget)).to.be(0);
+      });
+
+      it('should refit the parent panel', () => {
+        let panel = createSizedPanel([100, 200]);
+        SplitLayout.setMinSize(panel.childAt(0), 150);
+        expect(hasPendingMessages(panel)).to.be(true);
+        sendPendingMessage(panel);
+        expect(panel.node.style.minWidth).to.be('150px');
+        panel.dispose();
+      });
+
+      it('should limit the size of the widget', () => {
+        let panel = createSizedPanel([100, 200]);
+        SplitLayout.setMinSize(panel.childAt(0), 150);
+        sendMessage(panel, Widget.MsgFitRequest);
+        sendMessage(panel, new ResizeMessage(300, 100));
+        expect(panel.pixelSizes()).to.eql([150, 150]);
+        panel.dispose();
+      });
+
+      it('should use the larger of the CSS and the property minimum', () => {
+        let panel = createSizedPanel([100, 200]);
+        panel.childAt(0).node.style.minWidth = '180px';
+        SplitLayout.setMinSize(panel.childAt(0), 150);
+        sendMessage(panel, Widget.MsgFitRequest);
+        sendMessage(panel, new ResizeMessage(300, 100));
+        expect(panel.pixelSizes()).to.eql([180, 120]);
+        panel.dispose();
+      });
+
+    });
+
+    describe('.getMaxSize()', () => {
+
+      it('should default to `Infinity`', () => {
+        expect(SplitLayout.getMaxSize(new Widget())).to.be(Infinity);
+      });
+
+    });
+
+    describe('.setMaxSize()', () => {
+
+      it('should limit the size of the widget', () => {
+        let panel = createSizedPanel([100, 200]);
+        SplitLayout.setMaxSize(panel.childAt(1), 120);
+        sendMessage(panel, Widget.MsgFitRequest);
+        sendMessage(panel, new ResizeMessage(300, 100));
+        expect(panel.pixelSizes()).to.eql([180, 120]);
+        panel.dispose();
+      });
+
+      it('should use the smaller of the CSS and the property maximum', () => {
+        let panel = createSizedPanel([100, 200]);
+        panel.childAt(1).node.style.maxWidth = '100px';
+        SplitLayout.setMaxSize(panel.childAt(1), 120);
+        sendMessage(panel, Widget.MsgFitRequest);
+        sendMessage(panel, new ResizeMessage(300, 100));
+        expect(panel.pixelSizes()).to.eql([200, 100]);
+        panel.dispose();
+      });
+
+    });
+
+    describe('.getResizePolicy()', () => {
+
+      it('should default to `ResizePolicy.Fill`', () => {
+        expect(SplitLayout.getResizePolicy(new Widget())).to.be(ResizePolicy.Fill);
+      });
+
+    });
+
+    describe('.setResizePolicy()', () => {
+
+      it('should keep the size of a fixed widget when the layout is resized', () => {
+        let panel = createSizedPanel([100, 200]);
+        SplitLayout.setResizePolicy(panel.childAt(0), ResizePolicy.Fixed);
+        sendMessage(panel, new ResizeMessage(400, 100));
+        expect(panel.pixelSizes()).to.eql([100, 300]);
+        sendMessage(panel, new ResizeMessage(250, 100));
+        expect(panel.pixelSizes()).to.eql([100, 150]);
+        panel.dispose();
+      });
+
+      it('should scale a proportional widget with the layout', () => {
+        let panel = createSizedPanel([100, 200]);
+        SplitLayout.setResizePolicy(panel.childAt(0), ResizePolicy.Proportional);
+        sendMessage(panel, new ResizeMessage(600, 100));
+        expect(panel.pixelSizes()).to.eql([200, 400]);
+        sendMessage(panel, new ResizeMessage(150, 100));
+        expect(panel.pixelSizes()).to.eql([50, 100]);
+        panel.dispose();
+      });
+
+      it('should share the change between the fill widgets by stretch', () => {
+        let panel = createSizedPanel([100, 100, 100]);
+        SplitLayout.setResizePolicy(panel.childAt(0), ResizePolicy.Fixed);
+        SplitLayout.setStretch(panel.childAt(1), 1);
+        SplitLayout.setStretch(panel.childAt(2), 3);
+        sendMessage(panel, Widget.MsgFitRequest);
+        sendMessage(panel, new ResizeMessage(500, 100));
+        expect(panel.pixelSizes()).to.eql([100, 150, 250]);
+        panel.dispose();
+      });
+
+    });
+
+    describe('#resizeMode', () => {
+
+      it('should default to `ResizeMode.Stretch`', () => {
+        let layout = createPanel(2).layout as SplitLayout;
+        expect(layout.resizeMode).to.be(ResizeMode.Stretch);
+      });
+
+      it('should keep the relative sizes in proportional mode', () => {
+        let panel = createSizedPanel([90, 210]);
+        let layout = panel.layout as SplitLayout;
+        layout.resizeMode = ResizeMode.Proportional;
+        sendMessage(panel, new ResizeMessage(600, 100));
+        expect(panel.pixelSizes()).to.eql([180, 420]);
+        sendMessage(panel, new ResizeMessage(200, 100));
+        expect(panel.pixelSizes()).to.eql([60, 140]);
+        panel.dispose();
+      });
+
+      it('should override the child resize policies in proportional mode', () => {
+        let panel = createSizedPanel([90, 210]);
+        SplitLayout.setResizePolicy(panel.childAt(0), ResizePolicy.Fixed);
+        panel.resizeMode = ResizeMode.Proportional;
+        sendMessage(panel, new ResizeMessage(600, 100));
+        expect(panel.pixelSizes()).to.eql([180, 420]);
+        panel.dispose();
+      });
+
+    });
+
+    describe('.getHandleSpacing()', () => {
+
+      it('should default to `-1`', () => {
+        expect(SplitLayout.getHandleSpacing(new Widget())).to.be(-1);
+      });
+
+    });
+
+    describe('.setHandleSpacing()', () => {
+
+      it('should set the spacing of the handle after the widget', () => {
+        let panel = createSizedPanel([100, 100, 100]);
+        panel.spacing = 4;
+        SplitLayout.setHandleSpacing(panel.childAt(0), 10);
+        sendMessage(panel, Widget.MsgFitRequest);
+        sendMessage(panel, new ResizeMessage(314, 100));
+        expect(panel.pixelSizes()).to.eql([100, 100, 100]);
+        expect(panel.handleAt(0).style.width).to.be('10px');
+        expect(panel.handleAt(1).style.width).to.be('4px');
+        expect(panel.childAt(1).node.style.left).to.be('110px');
+        expect(panel.childAt(2).node.style.left).to.be('214px');
+        panel.dispose();
+      });
+
+      it('should include the handle spacing in the minimum panel size', () => {
+        let panel = createSizedPanel([100, 100, 100]);
+        SplitLayout.setHandleSpacing(panel.childAt(0), 10);
+        SplitLayout.setHandleSpacing(panel.childAt(1), 1);
+        sendPendingMessage(panel);
+        expect(panel.node.style.minWidth).to.be('11px');
+        panel.dispose();
+      });
+
+    });
+
+  });
+
+  describe('SplitPanel', () => {
+
+    describe('accessibility', () => {
+
+      it('should make the handles focusable separators', () => {
+        let panel = createPanel(2);
+        let handle = panel.handleAt(0);
+        sendMessage(panel, Widget.MsgUpdateRequest);
+        expect(handle.getAttribute('role')).to.be('separator');
+        expect(handle.tabIndex).to.be(0);
+        expect(handle.getAttribute('aria-label')).to.be('Resize panes');
+      });
+
+      it('should use the custom handle label', () => {
+        let panel = createPanel(2);
+        panel.labels = { handle: 'Resize', resized: '{size}%' };
+        sendMessage(panel, Widget.MsgUpdateRequest);
+        expect(panel.handleAt(0).getAttribute('aria-label')).to.be('Resize');
+      });
+
+      it('should describe the size range of the widget before a handle', () => {
+        let panel = createSizedPanel([100, 200]);
+        SplitLayout.setMinSize(panel.childAt(1), 50);
+        sendMessage(panel, Widget.MsgFitRequest);
+        sendMessage(panel, new ResizeMessage(300, 100));
+        let handle = panel.handleAt(0);
+        expect(handle.getAttribute('aria-valuenow')).to.be('100');
+        expect(handle.getAttribute('aria-valuemin')).to.be('0');
+        expect(handle.getAttribute('aria-valuemax')).to.be('250');
+        panel.dispose();
+      });
+
+      it('should set the orientation of the handles across the layout', () => {
+        let panel = createSizedPanel([100, 200]);
+        expect(panel.handleAt(0).getAttribute('aria-orientation')).to.be('vertical');
+        panel.orientation = Orientation.Vertical;
+        sendMessage(panel, Widget.MsgFitRequest);
+        expect(panel.handleAt(0).getAttribute('aria-orientation')).to.be('horizontal');
+        panel.dispose();
+      });
+
+      it('should announce a finished resize if enabled', () => {
+        let panel = createSizedPanel([100, 200]);
+        let announcer = panel.node.querySelector('.p-SplitPanel-announcer');
+        expect(announcer.getAttribute('aria-live')).to.be('polite');
+        triggerKeyEvent(panel.handleAt(0), 'keydown', { keyCode: 39 });
+        sendMessage(panel, Widget.MsgUpdateRequest);
+        expect(announcer.textContent).to.be('');
+        panel.announceResize = true;
+        triggerKeyEvent(panel.handleAt(0), 'keydown', { keyCode: 39 });
+        sendMessage(panel, Widget.MsgUpdateRequest);
+        expect(announcer.textContent).to.be('Pane resized to 40 percent');
+        panel.dispose();
+      });
+
+    });
+
+    describe('#handleHitSize', () => {
+
+      it('should add a hit area to the default handles', () => {
+        let panel = createPanel(2);
+        panel.handleHitSize = 8;
+        sendMessage(panel, Widget.MsgUpdateRequest);
+        let hitArea = panel.handleAt(0).querySelector('.p-SplitPanel-hitArea') as HTMLElement;
+        expect(hitArea.style.width).to.be('8px');
+        panel.handleHitSize = 0;
+        sendMessage(panel, Widget.MsgUpdateRequest);
+        expect(panel.handleAt(0).querySelector('.p-SplitPanel-hitArea')).to.be(null);
+      });
+
+      it('should not add a hit area to widget handles', () => {
+        let panel = new WidgetHandlePanel();
+        panel.addChild(new Widget());
+        panel.handleHitSize = 8;
+        sendMessage(panel, Widget.MsgUpdateRequest);
+        expect(panel.handleAt(0).querySelector('.p-SplitPanel-hitArea')).to.be(null);
+      });
+
+      it('should only sync the hit areas when the handles change', () => {
+        let panel = createPanel(1);
+        panel.handleHitSize = 8;
+        sendMessage(panel, Widget.MsgUpdateRequest);
+        let handle = panel.handleAt(0);
+        handle.removeChild(handle.querySelector('.p-SplitPanel-hitArea'));
+        sendMessage(panel, Widget.MsgUpdateRequest);
+        expect(handle.querySelector('.p-SplitPanel-hitArea')).to.be(null);
+        panel.addChild(new Widget());
+        sendMessage(panel, Widget.MsgUpdateRequest);
+        expect(panel.handleAt(1).querySelector('.p-SplitPanel-hitArea')).to.not.be(null);
+      });
+
+    });
+
+    describe('handle drag', () => {
+
+      it('should emit the drag signals for a completed drag', () => {
+        let panel = createSizedPanel([100, 200]);
+        let events: string[] = [];
+        panel.dragStarted.connect((sender, index) => { events.push(`started:${index}`); });
+        panel.handleMoved.connect((sender, args) => {
+          events.push(`moved:${args.index}:${args.position}`);
+        });
+        panel.dragEnded.connect((sender, index) => { events.push(`ended:${index}`); });
+        panel.dragCanceled.connect((sender, index) => { events.push(`canceled:${index}`); });
+        let handle = panel.handleAt(0);
+        listenFor(panel, ['mousedown']);
+        triggerMouseEvent(handle, 'mousedown', { clientX: 100 });
+        triggerMouseEvent(handle, 'mousemove', { clientX: 150 });
+        triggerMouseEvent(handle, 'mouseup', { clientX: 150 });
+        expect(events).to.eql(['started:0', 'moved:0:150', 'ended:0']);
+        panel.dispose();
+      });
+
+      it('should emit `dragCanceled` instead of `dragEnded` for a canceled drag', () => {
+        let panel = createSizedPanel([100, 200]);
+        let events: string[] = [];
+        panel.dragEnded.connect((sender, index) => { events.push(`ended:${index}`); });
+        panel.dragCanceled.connect((sender, index) => { events.push(`canceled:${index}`); });
+        let handle = panel.handleAt(0);
+        listenFor(panel, ['mousedown']);
+        triggerMouseEvent(handle, 'mousedown', { clientX: 100 });
+        triggerMouseEvent(handle, 'mousemove', { clientX: 150 });
+        triggerKeyEvent(document.body, 'keydown', { keyCode: 27 });
+        expect(events).to.eql(['canceled:0']);
+        panel.dispose();
+      });
+
+      it('should keep the maximized widget when a drag is canceled', () => {
+        let panel = createPanel(3);
+        panel.attach(document.body);
+        panel.maximize(1);
+        let handle = panel.handleAt(0);
+        listenFor(panel, ['mousedown']);
+        triggerMouseEvent(handle, 'mousedown');
+        triggerMouseEvent(handle, 'mousemove', { clientX: 20 });
+        expect(panel.maximizedIndex).to.be(-1);
+        triggerKeyEvent(document.body, 'keydown', { keyCode: 27 });
+        expect(panel.maximizedIndex).to.be(1);
+        panel.dispose();
+      });
+
+      it('should restore every linked layout when a drag is canceled', () => {
+        let a = createSizedPanel([100, 200]);
+        let b = createSizedPanel([100, 200]);
+        a.link(b);
+        let handle = a.handleAt(0);
+        listenFor(a, ['mousedown']);
+        triggerMouseEvent(handle, 'mousedown', { clientX: 100 });
+        triggerMouseEvent(handle, 'mousemove', { clientX: 150 });
+        sendMessage(a, new ResizeMessage(300, 100));
+        sendMessage(b, new ResizeMessage(300, 100));
+        expect(b.pixelSizes()).to.eql([150, 150]);
+        triggerKeyEvent(document.body, 'keydown', { keyCode: 27 });
+        sendMessage(a, new ResizeMessage(300, 100));
+        sendMessage(b, new ResizeMessage(300, 100));
+        expect(a.pixelSizes()).to.eql([100, 200]);
+        expect(b.pixelSizes()).to.eql([100, 200]);
+        a.dispose();
+        b.dispose();
+      });
+
+      it('should let a deferred drag pass the limit of a collapsible widget', () => {
+        let panel = createSizedPanel([100, 200]);
+        SplitLayout.setMinSize(panel.childAt(1), 100);
+        SplitLayout.setCollapsible(panel.childAt(1), true);
+        sendMessage(panel, Widget.MsgFitRequest);
+        sendMessage(panel, new ResizeMessage(300, 100));
+        panel.deferResize = true;
+        let handle = panel.handleAt(0);
+        listenFor(panel, ['mousedown']);
+        triggerMouseEvent(handle, 'mousedown', { clientX: 100 });
+        triggerMouseEvent(handle, 'mousemove', { clientX: 260 });
+        let ghost = panel.node.querySelector('.p-SplitPanel-ghost') as HTMLElement;
+        expect(ghost.style.left).to.be('260px');
+        triggerMouseEvent(handle, 'mouseup');
+        panel.dispose();
+      });
+
+      it('should only start from the grips of a handle with grips', () => {
+        let panel = createPanel(2);
+        panel.attach(document.body);
+        let handle = panel.handleAt(0);
+        let grip = document.createElement('span');
+        let input = document.createElement('input');
+        grip.className = 'p-SplitPanel-handleGrip';
+        handle.appendChild(grip);
+        handle.appendChild(input);
+        let started: number[] = [];
+        panel.dragStarted.connect((sender, index) => { started.push(index); });
+        listenFor(panel, ['mousedown']);
+        triggerMouseEvent(input, 'mousedown');
+        expect(started).to.eql([]);
+        triggerMouseEvent(grip, 'mousedown');
+        triggerMouseEvent(grip, 'mouseup');
+        expect(started).to.eql([0]);
+        panel.dispose();
+      });
+
+      it('should not move a handle for a key in a handle input', () => {
+        let panel = createPanel(2);
+        panel.attach(document.body);
+        let handle = panel.handleAt(0);
+        let grip = document.createElement('span');
+        let input = document.createElement('input');
+        grip.className = 'p-SplitPanel-handleGrip';
+        handle.appendChild(grip);
+        handle.appendChild(input);
+        let moved = 0;
+        panel.handleMoved.connect(() => { moved++; });
+        triggerKeyEvent(input, 'keydown', { keyCode: 39 });
+        expect(moved).to.be(0);
+        triggerKeyEvent(handle, 'keydown', { keyCode: 39 });
+        expect(moved).to.be(1);
+        panel.dispose();
+      });
+
+    });
+
+    describe('pointer and touch drag', () => {
+
+      function pointer(id: number, clientX: number, primary = true): any {
+        return { pointerId: id, pointerType: 'touch', isPrimary: primary, clientX, clientY: 0 };
+      }
+
+      function touches(ids: number[], clientX: number): any {
+        let list = ids.map(identifier => ({ identifier, clientX, clientY: 0 }));
+        return { touches: list, changedTouches: list };
+      }
+
+      function createDragPanel(): SplitPanel {
+        let panel = createSizedPanel([100, 200]);
+        listenFor(panel, ['pointerdown', 'touchstart']);
+        (panel.handleAt(0) as any).setPointerCapture = (): void => { };
+        return panel;
+      }
+
+      it('should only follow the pointer which started the drag', () => {
+        let panel = createDragPanel();
+        let ended: number[] = [];
+        panel.dragEnded.connect((sender, index) => { ended.push(index); });
+        let handle = panel.handleAt(0);
+        triggerEvent(handle, 'pointerdown', pointer(1, 100));
+        triggerEvent(handle, 'pointermove', pointer(2, 200));
+        triggerEvent(handle, 'pointerup', pointer(2, 200));
+        sendMessage(panel, new ResizeMessage(300, 100));
+        expect(panel.pixelSizes()).to.eql([100, 200]);
+        expect(ended).to.eql([]);
+        triggerEvent(handle, 'pointermove', pointer(1, 150));
+        triggerEvent(handle, 'pointerup', pointer(1, 150));
+        sendMessage(panel, new ResizeMessage(300, 100));
+        expect(panel.pixelSizes()).to.eql([150, 150]);
+        expect(ended).to.eql([0]);
+        panel.dispose();
+      });
+
+      it('should not start a drag for a secondary pointer', () => {
+        let panel = createDragPanel();
+        let started: number[] = [];
+        panel.dragStarted.connect((sender, index) => { started.push(index); });
+        triggerEvent(panel.handleAt(0), 'pointerdown', pointer(1, 100, false));
+        expect(started).to.eql([]);
+        panel.dispose();
+      });
+
+      it('should cancel the drag on `pointercancel`', () => {
+        let panel = createDragPanel();
+        let events: string[] = [];
+        panel.dragEnded.connect((sender, index) => { events.push(`ended:${index}`); });
+        panel.dragCanceled.connect((sender, index) => { events.push(`canceled:${index}`); });
+        let handle = panel.handleAt(0);
+        triggerEvent(handle, 'pointerdown', pointer(1, 100));
+        triggerEvent(handle, 'pointermove', pointer(1, 150));
+        triggerEvent(handle, 'pointercancel', pointer(1, 150));
+        sendMessage(panel, new ResizeMessage(300, 100));
+        expect(events).to.eql(['canceled:0']);
+        expect(panel.pixelSizes()).to.eql([100, 200]);
+        panel.dispose();
+      });
+
+      it('should not start a drag for a multi-touch gesture', () => {
+        let panel = createDragPanel();
+        let started: number[] = [];
+        panel.dragStarted.connect((sender, index) => { started.push(index); });
+        triggerEvent(panel.handleAt(0), 'touchstart', touches([1, 2], 100));
+        expect(started).to.eql([]);
+        panel.dispose();
+      });
+
+      it('should only follow the touch which started the drag', () => {
+        let panel = createDragPanel();
+        let handle = panel.handleAt(0);
+        triggerEvent(handle, 'touchstart', touches([1], 100));
+        triggerEvent(handle, 'touchmove', touches([2], 200));
+        sendMessage(panel, new ResizeMessage(300, 100));
+        expect(panel.pixelSizes()).to.eql([100, 200]);
+        triggerEvent(handle, 'touchmove', touches([1], 150));
+        triggerEvent(handle, 'touchend', touches([1], 150));
+        sendMessage(panel, new ResizeMessage(300, 100));
+        expect(panel.pixelSizes()).to.eql([150, 150]);
+        panel.dispose();
+      });
+
+      it('should cancel the drag on `touchcancel`', () => {
+        let panel = createDragPanel();
+        let events: string[] = [];
+        panel.dragEnded.connect((sender, index) => { events.push(`ended:${index}`); });
+        panel.dragCanceled.connect((sender, index) => { events.push(`canceled:${index}`); });
+        let handle = panel.handleAt(0);
+        triggerEvent(handle, 'touchstart', touches([1], 100));
+        triggerEvent(handle, 'touchmove', touches([1], 150));
+        triggerEvent(handle, 'touchcancel', touches([1], 150));
+        sendMessage(panel, new ResizeMessage(300, 100));
+        expect(events).to.eql(['canceled:0']);
+        expect(panel.pixelSizes()).to.eql([100, 200]);
+        panel.dispose();
+      });
+
+    });
+
+    describe('#reorderable', () => {
+
+      function createReorderPanel(): SplitPanel {
+        let panel = createSizedPanel([100, 100, 100]);
+        for (let i = 0; i < 3; ++i) {
+          let header = document.createElement('div');
+          panel.childAt(i).node.appendChild(header);
+          SplitPanel.setDragRegion(panel.childAt(i), header);
+        }
+        panel.reorderable = true;
+        listenFor(panel, ['mousedown']);
+        return panel;
+      }
+
+      function dragPane(panel: SplitPanel, index: number, clientX: number): void {
+        let header = SplitPanel.getDragRegion(panel.childAt(index));
+        let start = index * 100 + 50;
+        triggerMouseEvent(header, 'mousedown', { clientX: start });
+        triggerMouseEvent(header, 'mousemove', { clientX });
+        triggerMouseEvent(header, 'mouseup', { clientX });
+      }
+
+      it('should be `false` by default', () => {
+        let panel = new SplitPanel();
+        expect(panel.reorderable).to.be(false);
+      });
+
+      it('should move a pane dropped at another slot', () => {
+        let panel = createReorderPanel();
+        let widgets = [panel.childAt(0), panel.childAt(1), panel.childAt(2)];
+        let moves: SplitPanel.IPaneMovedArgs[] = [];
+        panel.paneMoved.connect((sender, args) => { moves.push(args); });
+        dragPane(panel, 0, 280);
+        expect(panel.childAt(2)).to.be(widgets[0]);
+        expect(moves).to.eql([{ fromIndex: 0, toIndex: 2 }]);
+        dragPane(panel, 2, 20);
+        expect(panel.childAt(0)).to.be(widgets[0]);
+        expect(moves[1]).to.eql({ fromIndex: 2, toIndex: 0 });
+        panel.dispose();
+      });
+
+      it('should not move a pane dropped next to itself', () => {
+        let panel = createReorderPanel();
+        let moves: SplitPanel.IPaneMovedArgs[] = [];
+        panel.paneMoved.connect((sender, args) => { moves.push(args); });
+        dragPane(panel, 1, 120);
+        dragPane(panel, 1, 180);
+        expect(moves).to.eql([]);
+        panel.dispose();
+      });
+
+      it('should show the drop indicator at the drop slot', () => {
+        let panel = createReorderPanel();
+        let header = SplitPanel.getDragRegion(panel.childAt(0));
+        triggerMouseEvent(header, 'mousedown', { clientX: 50 });
+        let selector = '.p-SplitPanel-dropIndicator';
+        triggerMouseEvent(header, 'mousemove', { clientX: 52 });
+        expect(panel.node.querySelector(selector)).to.be(null);
+        triggerMouseEvent(header, 'mousemove', { clientX: 180 });
+        let indicator = panel.node.querySelector(selector) as HTMLElement;
+        expect(indicator.style.left).to.be('200px');
+        triggerMouseEvent(header, 'mousemove', { clientX: 280 });
+        expect(indicator.style.left).to.be('300px');
+        triggerMouseEvent(header, 'mouseup', { clientX: 280 });
+        expect(panel.node.querySelector(selector)).to.be(null);
+        panel.dispose();
+      });
+
+      it('should not move a pane for a canceled reorder', () => {
+        let panel = createReorderPanel();
+        let moves: SplitPanel.IPaneMovedArgs[] = [];
+        panel.paneMoved.connect((sender, args) => { moves.push(args); });
+        let header = SplitPanel.getDragRegion(panel.childAt(0));
+        triggerMouseEvent(header, 'mousedown', { clientX: 50 });
+        triggerMouseEvent(header, 'mousemove', { clientX: 280 });
+        triggerKeyEvent(document.body, 'keydown', { keyCode: 27 });
+        triggerMouseEvent(header, 'mouseup', { clientX: 280 });
+        expect(panel.node.querySelector('.p-SplitPanel-dropIndicator')).to.be(null);
+        expect(moves).to.eql([]);
+        panel.dispose();
+      });
+
+      it('should not move a pane unless the panel is reorderable', () => {
+        let panel = createReorderPanel();
+        let first = panel.childAt(0);
+        panel.reorderable = false;
+        dragPane(panel, 0, 280);
+        expect(panel.childAt(0)).to.be(first);
+        panel.dispose();
+      });
+
+    });
+
+    describe('#persistTo()', () => {
+
+      it('should restore the layout of a new panel when attached', () => {
+        let store = new MemoryLayoutStore();
+        let source = createPanel(2);
+        source.spacing = 0;
+        source.attach(document.body);
+        source.setPixelSizes([120, 240]);
+        sendMessage(source, new ResizeMessage(360, 100));
+        store.save('layout', source.saveState());
+        source.dispose();
+        let target = createPanel(2);
+        target.persistTo(store, 'layout');
+        expect(target.pixelSizes()).to.eql([0, 0]);
+        target.attach(document.body);
+        expect(target.pixelSizes()).to.eql([120, 240]);
+        target.dispose();
+      });
+
+      it('should save a pending change when the panel is disposed', () => {
+        let store = new MemoryLayoutStore();
+        let panel = createSizedPanel([100, 200]);
+        panel.persistTo(store, 'layout');
+        triggerKeyEvent(panel.handleAt(0), 'keydown', { keyCode: 39 });
+        expect(store.load('layout')).to.be(null);
+        panel.dispose();
+        expect(store.load('layout')).to.not.be(null);
+      });
+
+    });
+
+  });
+
+  describe('SplitTree', () => {
+
+    function createLeaf(id: string): Widget {
+      let widget = new Widget();
+      widget.id = id;
+      return widget;
+    }
+
+    let tree: SplitTree.INode = {
+      type: 'split',
+      orientation: 'vertical',
+      sizes: [1, 3],
+      spacing: 4,
+      children: [
+        { type: 'leaf', id: 'top' } as SplitTree.ILeafNode,
+        {
+          type: 'split',
+          orientation: 'horizontal',
+          children: [
+            { type: 'leaf', id: 'left' } as SplitTree.ILeafNode,
+            { type: 'leaf', id: 'right' } as SplitTree.ILeafNode,
+          ],
+        } as SplitTree.ISplitNode,
+      ],
+    } as SplitTree.ISplitNode;
+
+    describe('.createWidget()', () => {
+
+      it('should create the split panels and content widgets', () => {
+        let panel = SplitTree.createWidget(tree, createLeaf) as SplitPanel;
+        expect(panel.orientation).to.be(Orientation.Vertical);
+        expect(panel.spacing).to.be(4);
+        expect(panel.sizes()).to.eql([0.25, 0.75]);
+        expect(panel.childAt(0).id).to.be('top');
+        let inner = panel.childAt(1) as SplitPanel;
+        expect(inner.orientation).to.be(Orientation.Horizontal);
+        expect(inner.childAt(0).id).to.be('left');
+        expect(inner.childAt(1).id).to.be('right');
+      });
+
+      it('should drop the widgets and sizes omitted by the factory', () => {
+        let factory = (id: string) => id === 'top' ? null : createLeaf(id);
+        let panel = SplitTree.createWidget(tree, factory) as SplitPanel;
+        expect(panel.childCount()).to.be(1);
+        expect(panel.sizes()).to.eql([1]);
+      });
+
+      it('should return `null` for a leaf omitted by the factory', () => {
+        let leaf: SplitTree.ILeafNode = { type: 'leaf', id: 'top' };
+        expect(SplitTree.createWidget(leaf, () => null)).to.be(null);
+      });
+
+    });
+
+    describe('.fromWidget()', () => {
+
+      it('should describe the widget hierarchy', () => {
+        let panel = SplitTree.createWidget(tree, createLeaf);
+        let node = SplitTree.fromWidget(panel) as SplitTree.ISplitNode;
+        expect(node.type).to.be('split');
+        expect(node.orientation).to.be('vertical');
+        expect(node.sizes).to.eql([0.25, 0.75]);
+        expect(node.spacing).to.be(4);
+        expect(node.children[0]).to.eql({ type: 'leaf', id: 'top' });
+        let inner = node.children[1] as SplitTree.ISplitNode;
+        expect(inner.orientation).to.be('horizontal');
+        expect(inner.children).to.eql([
+          { type: 'leaf', id: 'left' },
+          { type: 'leaf', id: 'right' },
+        ]);
+      });
+
+      it('should describe a content widget as a leaf', () => {
+        let node = SplitTree.fromWidget(createLeaf('content'));
+        expect(node).to.eql({ type: 'leaf', id: 'content' });
+      });
+
+    });
+
+  });
+
+  describe('MemoryLayoutStore', () => {
+
+    describe('#load()', () => {
+
+      it('should return `null` for an unknown key', () => {
+        let store = new MemoryLayoutStore();
+        expect(store.load('layout')).to.be(null);
+      });
+
+      it('should return the saved state', () => {
+        let store = new MemoryLayoutStore();
+        let state = createPanel(2).saveState();
+        store.save('layout', state);
+        expect(store.load('layout')).to.eql(state);
+      });
+
+    });
+
+    describe('#save()', () => {
+
+      it('should copy the state', () => {
+        let store = new MemoryLayoutStore();
+        let state = createPanel(2).saveState();
+        store.save('layout', state);
+        state.spacing = 42;
+        expect(store.load('layout').spacing).to.not.be(42);
+      });
+
+    });
+
+  });
+
+  describe('LocalStorageLayoutStore', () => {
+
+    describe('#prefix', () => {
+
+      it('should default to `p-SplitLayout:`', () => {
+        expect(new LocalStorageLayoutStore().prefix).to.be('p-SplitLayout:');
+      });
+
+      it('should be the prefix passed to the constructor', () => {
+        expect(new LocalStorageLayoutStore('app:').prefix).to.be('app:');
+      });
+
+    });
+
+  });
+
   // describe('SplitPanel', () => {
 
   //   describe('.Horizontal', () => {